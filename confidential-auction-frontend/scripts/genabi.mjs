@@ -4,6 +4,34 @@ import path from 'path';
 const HARDHAT_ARTIFACTS_PATH = '../fhevm-hardhat-template/artifacts/contracts';
 const ABI_OUTPUT_PATH = './src/abi';
 const CONFIG_PATH = './config/addresses.json';
+const DEPLOYMENTS_PATH = '../fhevm-hardhat-template/deployments';
+
+// The auction is deployed behind a proxy, so a network's deployment keeps its address across upgrades
+function readDeployedAddresses() {
+  const deployed = {};
+  if (!fs.existsSync(DEPLOYMENTS_PATH)) {
+    return deployed;
+  }
+
+  for (const network of fs.readdirSync(DEPLOYMENTS_PATH)) {
+    const chainIdPath = path.join(DEPLOYMENTS_PATH, network, '.chainId');
+    const deploymentPath = path.join(DEPLOYMENTS_PATH, network, 'ConfidentialAuction.json');
+    if (!fs.existsSync(chainIdPath) || !fs.existsSync(deploymentPath)) {
+      continue;
+    }
+
+    const chainId = fs.readFileSync(chainIdPath, 'utf8').trim();
+    const { address } = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
+    deployed[chainId] = { address, chainId: Number(chainId), chainName: network };
+
+    // AuctionQuery serves the paginated listings, see `loadAuctions`
+    const queryPath = path.join(DEPLOYMENTS_PATH, network, 'AuctionQuery.json');
+    if (fs.existsSync(queryPath)) {
+      deployed[chainId].queryAddress = JSON.parse(fs.readFileSync(queryPath, 'utf8')).address;
+    }
+  }
+  return deployed;
+}
 
 function generateABI() {
   // Ensure output directory exists
@@ -21,9 +49,20 @@ function generateABI() {
 
   const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
   
-  // Generate ABI file
+  const queryArtifactPath = path.join(HARDHAT_ARTIFACTS_PATH, 'AuctionQuery.sol/AuctionQuery.json');
+
+  if (!fs.existsSync(queryArtifactPath)) {
+    console.error('AuctionQuery artifact not found. Run hardhat compile first.');
+    process.exit(1);
+  }
+
+  const queryArtifact = JSON.parse(fs.readFileSync(queryArtifactPath, 'utf8'));
+
+  // Generate ABI files
   const abiContent = `export const ConfidentialAuctionABI = ${JSON.stringify({ abi: artifact.abi }, null, 2)} as const;`;
   fs.writeFileSync(path.join(ABI_OUTPUT_PATH, 'ConfidentialAuctionABI.ts'), abiContent);
+  const queryAbiContent = `export const AuctionQueryABI = ${JSON.stringify({ abi: queryArtifact.abi }, null, 2)} as const;`;
+  fs.writeFileSync(path.join(ABI_OUTPUT_PATH, 'AuctionQueryABI.ts'), queryAbiContent);
 
   // Read addresses from config file
   let addresses = {};
@@ -38,6 +77,13 @@ function generateABI() {
     }
   }
 
+  // hardhat-deploy deployments take precedence over the config file
+  const deployed = readDeployedAddresses();
+  if (Object.keys(deployed).length > 0) {
+    addresses = { ...addresses, ...deployed };
+    console.log(`🚀 Loaded deployed addresses for chain(s) ${Object.keys(deployed).join(', ')}`);
+  }
+
   // Use defaults if config is empty or missing
   if (Object.keys(addresses).length === 0) {
     addresses = {
@@ -56,13 +102,14 @@ function generateABI() {
   }
 
   // Generate addresses file
-  const addressesContent = `export const ConfidentialAuctionAddresses: Record<string, { address: string; chainId: number; chainName?: string }> = ${JSON.stringify(addresses, null, 2)} as const;`;
+  const addressesContent = `export const ConfidentialAuctionAddresses: Record<string, { address: string; chainId: number; chainName?: string; queryAddress?: string }> = ${JSON.stringify(addresses, null, 2)} as const;`;
   
   fs.writeFileSync(path.join(ABI_OUTPUT_PATH, 'ConfidentialAuctionAddresses.ts'), addressesContent);
 
   console.log('✅ ABI files generated successfully!');
   console.log('📁 Generated files:');
   console.log('  - src/abi/ConfidentialAuctionABI.ts');
+  console.log('  - src/abi/AuctionQueryABI.ts');
   console.log('  - src/abi/ConfidentialAuctionAddresses.ts');
 }
 
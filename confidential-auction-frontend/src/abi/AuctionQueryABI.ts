@@ -0,0 +1,1273 @@
+export const AuctionQueryABI = {
+  "abi": [
+    {
+      "inputs": [
+        {
+          "internalType": "contract ConfidentialAuction",
+          "name": "_auctionContract",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "constructor"
+    },
+    {
+      "inputs": [],
+      "name": "auctionContract",
+      "outputs": [
+        {
+          "internalType": "contract ConfidentialAuction",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_bidder",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getAuctionsBidOnBy",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "id",
+              "type": "uint256"
+            },
+            {
+              "internalType": "string",
+              "name": "title",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "description",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "itemImageUrl",
+              "type": "string"
+            },
+            {
+              "internalType": "address",
+              "name": "creator",
+              "type": "address"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionType",
+              "name": "auctionType",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "status",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "effectiveStatus",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "endTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "minimumBidIncrement",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalBids",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "hasReservePrice",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalUnits",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "threshold",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "extensionTime",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "maxExtensions",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.ExtensionPolicy",
+              "name": "extensionPolicy",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "extensionCount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "paymentToken",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "floorPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "priceDecayRate",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "pausedDuration",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "enum ConfidentialAuction.LotStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "address",
+                  "name": "token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "tokenId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bool",
+                  "name": "claimed",
+                  "type": "bool"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.Lot",
+              "name": "lot",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleWindow",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candlePeriods",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "candleDrawn",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleEndTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPrivate",
+              "type": "bool"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "bidderRoot",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "bool",
+              "name": "isAnonymous",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPaused",
+              "type": "bool"
+            },
+            {
+              "internalType": "string",
+              "name": "metadataURI",
+              "type": "string"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "metadataHash",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "uint256",
+              "name": "categoryId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32[]",
+              "name": "tags",
+              "type": "bytes32[]"
+            }
+          ],
+          "internalType": "struct AuctionQuery.AuctionSummary[]",
+          "name": "",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_categoryId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getAuctionsByCategory",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "id",
+              "type": "uint256"
+            },
+            {
+              "internalType": "string",
+              "name": "title",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "description",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "itemImageUrl",
+              "type": "string"
+            },
+            {
+              "internalType": "address",
+              "name": "creator",
+              "type": "address"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionType",
+              "name": "auctionType",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "status",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "effectiveStatus",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "endTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "minimumBidIncrement",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalBids",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "hasReservePrice",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalUnits",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "threshold",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "extensionTime",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "maxExtensions",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.ExtensionPolicy",
+              "name": "extensionPolicy",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "extensionCount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "paymentToken",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "floorPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "priceDecayRate",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "pausedDuration",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "enum ConfidentialAuction.LotStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "address",
+                  "name": "token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "tokenId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bool",
+                  "name": "claimed",
+                  "type": "bool"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.Lot",
+              "name": "lot",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleWindow",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candlePeriods",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "candleDrawn",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleEndTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPrivate",
+              "type": "bool"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "bidderRoot",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "bool",
+              "name": "isAnonymous",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPaused",
+              "type": "bool"
+            },
+            {
+              "internalType": "string",
+              "name": "metadataURI",
+              "type": "string"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "metadataHash",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "uint256",
+              "name": "categoryId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32[]",
+              "name": "tags",
+              "type": "bytes32[]"
+            }
+          ],
+          "internalType": "struct AuctionQuery.AuctionSummary[]",
+          "name": "",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_creator",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getAuctionsByCreator",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "id",
+              "type": "uint256"
+            },
+            {
+              "internalType": "string",
+              "name": "title",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "description",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "itemImageUrl",
+              "type": "string"
+            },
+            {
+              "internalType": "address",
+              "name": "creator",
+              "type": "address"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionType",
+              "name": "auctionType",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "status",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "effectiveStatus",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "endTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "minimumBidIncrement",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalBids",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "hasReservePrice",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalUnits",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "threshold",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "extensionTime",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "maxExtensions",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.ExtensionPolicy",
+              "name": "extensionPolicy",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "extensionCount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "paymentToken",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "floorPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "priceDecayRate",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "pausedDuration",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "enum ConfidentialAuction.LotStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "address",
+                  "name": "token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "tokenId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bool",
+                  "name": "claimed",
+                  "type": "bool"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.Lot",
+              "name": "lot",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleWindow",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candlePeriods",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "candleDrawn",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleEndTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPrivate",
+              "type": "bool"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "bidderRoot",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "bool",
+              "name": "isAnonymous",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPaused",
+              "type": "bool"
+            },
+            {
+              "internalType": "string",
+              "name": "metadataURI",
+              "type": "string"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "metadataHash",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "uint256",
+              "name": "categoryId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32[]",
+              "name": "tags",
+              "type": "bytes32[]"
+            }
+          ],
+          "internalType": "struct AuctionQuery.AuctionSummary[]",
+          "name": "",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "enum ConfidentialAuction.AuctionStatus",
+          "name": "_status",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getAuctionsByStatus",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "id",
+              "type": "uint256"
+            },
+            {
+              "internalType": "string",
+              "name": "title",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "description",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "itemImageUrl",
+              "type": "string"
+            },
+            {
+              "internalType": "address",
+              "name": "creator",
+              "type": "address"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionType",
+              "name": "auctionType",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "status",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "effectiveStatus",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "endTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "minimumBidIncrement",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalBids",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "hasReservePrice",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalUnits",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "threshold",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "extensionTime",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "maxExtensions",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.ExtensionPolicy",
+              "name": "extensionPolicy",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "extensionCount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "paymentToken",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "floorPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "priceDecayRate",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "pausedDuration",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "enum ConfidentialAuction.LotStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "address",
+                  "name": "token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "tokenId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bool",
+                  "name": "claimed",
+                  "type": "bool"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.Lot",
+              "name": "lot",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleWindow",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candlePeriods",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "candleDrawn",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleEndTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPrivate",
+              "type": "bool"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "bidderRoot",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "bool",
+              "name": "isAnonymous",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPaused",
+              "type": "bool"
+            },
+            {
+              "internalType": "string",
+              "name": "metadataURI",
+              "type": "string"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "metadataHash",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "uint256",
+              "name": "categoryId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32[]",
+              "name": "tags",
+              "type": "bytes32[]"
+            }
+          ],
+          "internalType": "struct AuctionQuery.AuctionSummary[]",
+          "name": "",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getAuctionsPage",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "id",
+              "type": "uint256"
+            },
+            {
+              "internalType": "string",
+              "name": "title",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "description",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "itemImageUrl",
+              "type": "string"
+            },
+            {
+              "internalType": "address",
+              "name": "creator",
+              "type": "address"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionType",
+              "name": "auctionType",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "status",
+              "type": "uint8"
+            },
+            {
+              "internalType": "enum ConfidentialAuction.AuctionStatus",
+              "name": "effectiveStatus",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "endTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "minimumBidIncrement",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalBids",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "hasReservePrice",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "totalUnits",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "threshold",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "extensionTime",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "maxExtensions",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.ExtensionPolicy",
+              "name": "extensionPolicy",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "extensionCount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "paymentToken",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "startPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "floorPrice",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "priceDecayRate",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "pausedDuration",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "enum ConfidentialAuction.LotStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "address",
+                  "name": "token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "tokenId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bool",
+                  "name": "claimed",
+                  "type": "bool"
+                }
+              ],
+              "internalType": "struct ConfidentialAuction.Lot",
+              "name": "lot",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleWindow",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candlePeriods",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "candleDrawn",
+              "type": "bool"
+            },
+            {
+              "internalType": "uint256",
+              "name": "candleEndTime",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPrivate",
+              "type": "bool"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "bidderRoot",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "bool",
+              "name": "isAnonymous",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "isPaused",
+              "type": "bool"
+            },
+            {
+              "internalType": "string",
+              "name": "metadataURI",
+              "type": "string"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "metadataHash",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "uint256",
+              "name": "categoryId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32[]",
+              "name": "tags",
+              "type": "bytes32[]"
+            }
+          ],
+          "internalType": "struct AuctionQuery.AuctionSummary[]",
+          "name": "",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getCategories",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "string",
+              "name": "name",
+              "type": "string"
+            },
+            {
+              "internalType": "bool",
+              "name": "retired",
+              "type": "bool"
+            }
+          ],
+          "internalType": "struct ConfidentialAuction.Category[]",
+          "name": "categories",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    }
+  ]
+} as const;
\ No newline at end of file
@@ -1,4 +1,4 @@
-export const ConfidentialAuctionAddresses: Record<string, { address: string; chainId: number; chainName?: string }> = {
+export const ConfidentialAuctionAddresses: Record<string, { address: string; chainId: number; chainName?: string; queryAddress?: string }> = {
   "31337": {
     "address": "0x5c653ca4AeA7F2Da07f0AABf75F85766EAFDA615",
     "chainId": 31337,
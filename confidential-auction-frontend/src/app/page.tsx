@@ -1,28 +1,33 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useFhevm } from "@/fhevm/useFhevm";
 import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
 import { useMetaMask } from "@/hooks/useMetaMask";
-import { useAuctionSystem, AuctionType } from "@/hooks/useAuctionSystem";
+import { useAuctionSystem, AuctionStatus, AuctionType, AuctionSettlement, CandleEnding, DutchPricing, ExtensionPolicy } from "@/hooks/useAuctionSystem";
+import { useAuctionSearchParams } from "@/hooks/useAuctionSearchParams";
+import { AuctionSort, DEFAULT_SEARCH_STATE, StatusFilter, buildSearchIndex, searchAuctions } from "@/lib/search";
+import { getAuctionTypeText } from "@/lib/utils";
 import { Navigation } from "@/components/Navigation";
 import { WelcomePage } from "@/components/WelcomePage";
 import { AuctionCard } from "@/components/AuctionCard";
 import { CreateAuctionForm } from "@/components/CreateAuctionForm";
 import { BidModal } from "@/components/BidModal";
 import { ResultsModal } from "@/components/ResultsModal";
-import { Plus, RefreshCw, AlertCircle, CheckCircle, Loader2, Filter, Search, Grid, List, Sparkles } from "lucide-react";
+import { Plus, RefreshCw, AlertCircle, CheckCircle, Loader2, Filter, Search, Grid, List, Sparkles, ArrowUpDown, X } from "lucide-react";
 
 export default function HomePage() {
   const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
   const [showWelcome, setShowWelcome] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingAuctionId, setEditingAuctionId] = useState<number | null>(null);
   const [selectedAuctionId, setSelectedAuctionId] = useState<number | null>(null);
   const [showBidModal, setShowBidModal] = useState(false);
+  const [bidModalType, setBidModalType] = useState<"manual" | "auto">("manual");
   const [showResultsModal, setShowResultsModal] = useState(false);
+  const [settlement, setSettlement] = useState<AuctionSettlement | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'upcoming' | 'ended'>('all');
+  const { searchState, updateSearchState, resetSearchState } = useAuctionSearchParams();
 
   // MetaMask connection
   const {
@@ -50,17 +55,32 @@ export default function HomePage() {
   // Auction system
   const {
     auctions,
+    categories,
     auctionResults,
+    isPaused,
     isLoading,
     isCreating,
     isBidding,
     message,
     refreshAuctions: loadAuctions,
     createAuction,
+    updateAuction,
     placeBid,
+    placeUnitBid,
+    placeAnonymousBid,
+    getUnitAllocation,
+    withdrawBid,
+    acceptPrice,
     setAutoBid,
     endAuction,
+    finalizeAuction,
+    claimLot,
     revealResults,
+    getSettlement,
+    settleAuction,
+    withdraw,
+    getLastBidAccepted,
+    registerBidder,
   } = useAuctionSystem({
     instance,
     fhevmDecryptionSignatureStorage,
@@ -79,29 +99,26 @@ export default function HomePage() {
     }
   }, [isConnected, showWelcome, loadAuctions]);
 
-  // Filter auctions based on search and status
-  const filteredAuctions = auctions.filter(auction => {
-    const matchesSearch = auction.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         auction.description.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    if (!matchesSearch) return false;
-
-    const now = Math.floor(Date.now() / 1000);
-    const isActive = auction.status === 1 || auction.status === 2;
-    const isUpcoming = auction.status === 0 && now < auction.startTime;
-    const isEnded = auction.status === 3 || auction.status === 4 || now > auction.endTime;
-
-    switch (filterStatus) {
-      case 'active':
-        return isActive || (auction.status === 0 && now >= auction.startTime && now <= auction.endTime);
-      case 'upcoming':
-        return isUpcoming;
-      case 'ended':
-        return isEnded;
-      default:
-        return true;
-    }
-  });
+  // Running auctions paused on their own, shown in the pause banner
+  const pausedAuctions = auctions.filter(auction => auction.isPaused && auction.effectiveStatus < AuctionStatus.ENDED);
+
+  // Search and facets over the loaded auctions; the index is only rebuilt when they reload
+  const searchIndex = useMemo(() => buildSearchIndex(auctions), [auctions]);
+  const { auctions: filteredAuctions, facets } = useMemo(
+    () => searchAuctions(searchIndex, searchState),
+    [searchIndex, searchState]
+  );
+  const isFiltered = JSON.stringify(searchState) !== JSON.stringify(DEFAULT_SEARCH_STATE);
+  const statusCount = (status: Exclude<StatusFilter, "all">) =>
+    facets.statuses.find((facet) => facet.value === status)?.count ?? 0;
+
+  const toggleTag = (tag: string) => {
+    updateSearchState({
+      tags: searchState.tags.includes(tag)
+        ? searchState.tags.filter((selected) => selected !== tag)
+        : [...searchState.tags, tag],
+    });
+  };
 
   const handleCreateAuction = async (
     title: string,
@@ -111,9 +128,16 @@ export default function HomePage() {
     startTime: number,
     endTime: number,
     minimumBidIncrement: string,
-    extensionTime: number,
+    extensionPolicy: ExtensionPolicy,
     hasReservePrice: boolean,
-    reservePrice?: string
+    reservePrice?: string,
+    dutchPricing?: DutchPricing,
+    totalUnits?: number,
+    candleEnding?: Pick<CandleEnding, "window" | "periods">,
+    allowlist?: { bidders: string[]; merkle: boolean },
+    anonymous?: boolean,
+    metadataURI?: string,
+    classification?: { categoryId: number; tags: string[] }
   ) => {
     await createAuction(
       title,
@@ -123,38 +147,111 @@ export default function HomePage() {
       startTime,
       endTime,
       minimumBidIncrement,
-      extensionTime,
+      extensionPolicy,
       hasReservePrice,
-      reservePrice
+      reservePrice,
+      dutchPricing,
+      totalUnits,
+      candleEnding,
+      allowlist,
+      anonymous,
+      metadataURI,
+      classification
     );
     setShowCreateForm(false);
   };
 
-  const handleBidSubmit = async (auctionId: number, bidAmount: string) => {
-    await placeBid(auctionId, bidAmount);
+  const handleUpdateAuction = async (
+    auctionId: number,
+    title: string,
+    description: string,
+    itemImageUrl: string,
+    schedule?: { startTime: number; endTime: number }
+  ) => {
+    await updateAuction(auctionId, title, description, itemImageUrl, schedule);
+    setEditingAuctionId(null);
+  };
+
+  const handleBidSubmit = async (auctionId: number, bidAmount: string, depositAmount: string, revise?: boolean) => {
+    if (auctions.find(a => a.id === auctionId)?.isAnonymous) {
+      await placeAnonymousBid(auctionId, bidAmount, depositAmount);
+    } else {
+      await placeBid(auctionId, bidAmount, depositAmount, revise);
+    }
+    setShowBidModal(false);
+    setSelectedAuctionId(null);
+  };
+
+  const handleUnitBidSubmit = async (auctionId: number, unitPrice: string, quantity: number, depositAmount: string) => {
+    await placeUnitBid(auctionId, unitPrice, quantity, depositAmount);
+    setShowBidModal(false);
+    setSelectedAuctionId(null);
+  };
+
+  const handleWithdrawBid = async (auctionId: number) => {
+    await withdrawBid(auctionId);
+    setShowBidModal(false);
+    setSelectedAuctionId(null);
+  };
+
+  const handleAcceptPrice = async (auctionId: number, maxPrice: string, depositAmount: string) => {
+    await acceptPrice(auctionId, maxPrice, depositAmount);
     setShowBidModal(false);
     setSelectedAuctionId(null);
   };
 
   const handleBid = (auctionId: number) => {
     setSelectedAuctionId(auctionId);
+    setBidModalType("manual");
     setShowBidModal(true);
   };
 
+  const refreshSettlement = useCallback(async (auctionId: number) => {
+    setSettlement((await getSettlement(auctionId)) ?? null);
+  }, [getSettlement]);
+
   const handleViewResults = (auctionId: number) => {
     setSelectedAuctionId(auctionId);
     setShowResultsModal(true);
+    refreshSettlement(auctionId);
   };
 
-  const handleSetAutoBid = async (auctionId: number) => {
-    // TODO: Implement auto-bid modal
-    console.log("Set auto-bid for auction:", auctionId);
+  const handleSettle = async (auctionId: number) => {
+    await settleAuction(auctionId);
+    await refreshSettlement(auctionId);
+  };
+
+  const handleWithdraw = async (auctionId?: number) => {
+    await withdraw(auctionId);
+    if (selectedAuctionId !== null) {
+      await refreshSettlement(selectedAuctionId);
+    }
+  };
+
+  const handleOpenAutoBid = (auctionId: number) => {
+    setSelectedAuctionId(auctionId);
+    setBidModalType("auto");
+    setShowBidModal(true);
+  };
+
+  const handleSetAutoBid = async (auctionId: number, maxBidAmount: string, depositAmount: string) => {
+    await setAutoBid(auctionId, maxBidAmount, depositAmount);
+    setShowBidModal(false);
+    setSelectedAuctionId(null);
   };
 
   const handleEndAuction = async (auctionId: number) => {
     await endAuction(auctionId);
   };
 
+  const handleFinalize = async (auctionId: number) => {
+    await finalizeAuction(auctionId);
+  };
+
+  const handleClaimLot = async (auctionId: number) => {
+    await claimLot(auctionId);
+  };
+
   const handleRevealResults = async (auctionId: number) => {
     await revealResults(auctionId);
   };
@@ -281,8 +378,8 @@ export default function HomePage() {
                 <input
                   type="text"
                   placeholder="Search auctions..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  value={searchState.query}
+                  onChange={(e) => updateSearchState({ query: e.target.value })}
                   className="w-full pl-10 pr-4 py-3 rounded-lg bg-white/5 border border-white/10 text-white placeholder-gray-400 focus:outline-none focus:border-purple-500/50 focus:bg-white/10 transition-all duration-300"
                 />
               </div>
@@ -292,14 +389,54 @@ export default function HomePage() {
                 <div className="flex items-center space-x-2">
                   <Filter className="w-4 h-4 text-gray-400" />
                   <select
-                    value={filterStatus}
-                    onChange={(e) => setFilterStatus(e.target.value as any)}
+                    value={searchState.status}
+                    onChange={(e) => updateSearchState({ status: e.target.value as StatusFilter })}
                     className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-purple-500/50"
                   >
                     <option value="all">All Status</option>
-                    <option value="active">Active</option>
-                    <option value="upcoming">Upcoming</option>
-                    <option value="ended">Ended</option>
+                    <option value="active">Active ({statusCount("active")})</option>
+                    <option value="upcoming">Upcoming ({statusCount("upcoming")})</option>
+                    <option value="ended">Ended ({statusCount("ended")})</option>
+                  </select>
+                  <select
+                    value={searchState.category ?? ""}
+                    onChange={(e) => updateSearchState({ category: e.target.value || undefined })}
+                    className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-purple-500/50"
+                  >
+                    <option value="">All Categories</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.name}>
+                        {category.name} ({facets.categories.find((facet) => facet.value === category.name)?.count ?? 0})
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={searchState.auctionType ?? ""}
+                    onChange={(e) =>
+                      updateSearchState({ auctionType: e.target.value === "" ? undefined : parseInt(e.target.value) })
+                    }
+                    className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-purple-500/50"
+                  >
+                    <option value="">All Types</option>
+                    {facets.auctionTypes.map((facet) => (
+                      <option key={facet.value} value={facet.value}>
+                        {getAuctionTypeText(facet.value)} ({facet.count})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <ArrowUpDown className="w-4 h-4 text-gray-400" />
+                  <select
+                    value={searchState.sort}
+                    onChange={(e) => updateSearchState({ sort: e.target.value as AuctionSort })}
+                    className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-purple-500/50"
+                  >
+                    <option value="relevance">Best Match</option>
+                    <option value="ending">Ending Soonest</option>
+                    <option value="bids">Most Bids</option>
+                    <option value="newest">Newest</option>
                   </select>
                 </div>
 
@@ -328,8 +465,59 @@ export default function HomePage() {
                 </div>
               </div>
             </div>
+
+            {/* Tags, most common first among the current results */}
+            {(facets.tags.length > 0 || searchState.tags.length > 0 || isFiltered) && (
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                {searchState.tags
+                  .filter((tag) => !facets.tags.some((facet) => facet.value === tag))
+                  .map((tag) => ({ value: tag, count: 0 }))
+                  .concat(facets.tags.slice(0, 12))
+                  .map((facet) => (
+                    <button
+                      key={facet.value}
+                      onClick={() => toggleTag(facet.value)}
+                      className={`px-3 py-1 rounded-full text-sm transition-all duration-300 ${
+                        searchState.tags.includes(facet.value)
+                          ? 'bg-cyan-500/20 text-cyan-300 border border-cyan-500/40'
+                          : 'bg-white/5 text-gray-300 border border-white/10 hover:border-cyan-500/30'
+                      }`}
+                    >
+                      #{facet.value} <span className="text-gray-500">{facet.count}</span>
+                    </button>
+                  ))}
+                {isFiltered && (
+                  <button
+                    onClick={resetSearchState}
+                    className="ml-auto flex items-center space-x-1 text-sm text-gray-400 hover:text-white transition-colors duration-300"
+                  >
+                    <X className="w-4 h-4" />
+                    <span>Clear filters</span>
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Pause Banner */}
+          {isPaused ? (
+            <div className="mb-6 p-4 rounded-lg bg-red-500/10 border border-red-500/30 flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
+              <p className="text-red-200">
+                The auction platform is paused: bidding and new auctions are on hold, and end times are frozen
+                until it resumes.
+              </p>
+            </div>
+          ) : pausedAuctions.length > 0 && (
+            <div className="mb-6 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/30 flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-yellow-400 mt-0.5 flex-shrink-0" />
+              <p className="text-yellow-200">
+                Paused: {pausedAuctions.map(a => a.title).join(", ")}. Bidding is on hold and the end time is
+                frozen until {pausedAuctions.length === 1 ? "it resumes" : "they resume"}.
+              </p>
+            </div>
+          )}
+
           {/* Status Message */}
           {message && (
             <div className="mb-6 p-4 rounded-lg bg-gradient-to-r from-purple-500/10 to-cyan-400/10 border border-purple-500/20">
@@ -352,12 +540,12 @@ export default function HomePage() {
               </div>
               <h3 className="text-2xl font-bold text-white mb-2">No Auctions Found</h3>
               <p className="text-gray-400 mb-6">
-                {searchTerm || filterStatus !== 'all' 
+                {isFiltered
                   ? 'No auctions match your criteria' 
                   : 'No auctions yet, create the first one!'
                 }
               </p>
-              {!searchTerm && filterStatus === 'all' && (
+              {!isFiltered && (
                 <button
                   onClick={() => setShowCreateForm(true)}
                   disabled={!isConnected || fhevmStatus !== 'ready'}
@@ -381,8 +569,11 @@ export default function HomePage() {
                   userAddress={userAddress}
                   onBid={handleBid}
                   onViewResults={handleViewResults}
-                  onSetAutoBid={handleSetAutoBid}
+                  onSetAutoBid={handleOpenAutoBid}
                   onEndAuction={handleEndAuction}
+                  onFinalize={handleFinalize}
+                  onClaimLot={handleClaimLot}
+                  onEdit={setEditingAuctionId}
                   isLoading={isBidding}
                 />
               ))}
@@ -407,6 +598,30 @@ export default function HomePage() {
               </div>
               <CreateAuctionForm
                 onCreateAuction={handleCreateAuction}
+                categories={categories}
+                isCreating={isCreating}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {editingAuctionId !== null && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="cyber-card">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="heading-md gradient-text">Edit Auction</h2>
+                <button
+                  onClick={() => setEditingAuctionId(null)}
+                  className="text-gray-400 hover:text-white transition-colors duration-300"
+                >
+                  ✕
+                </button>
+              </div>
+              <CreateAuctionForm
+                auction={auctions.find(a => a.id === editingAuctionId)!}
+                onUpdateAuction={handleUpdateAuction}
                 isCreating={isCreating}
               />
             </div>
@@ -418,7 +633,14 @@ export default function HomePage() {
         <BidModal
           auction={auctions.find(a => a.id === selectedAuctionId)!}
           onPlaceBid={handleBidSubmit}
+          onWithdrawBid={handleWithdrawBid}
+          onAcceptPrice={handleAcceptPrice}
+          onCheckLastBid={getLastBidAccepted}
+          onPlaceUnitBid={handleUnitBidSubmit}
+          onCheckAllocation={getUnitAllocation}
+          onRegisterBidder={registerBidder}
           onSetAutoBid={handleSetAutoBid}
+          initialBidType={bidModalType}
           onClose={() => {
             setShowBidModal(false);
             setSelectedAuctionId(null);
@@ -433,6 +655,9 @@ export default function HomePage() {
           results={auctionResults.get(selectedAuctionId) || null}
           onRevealResults={handleRevealResults}
           isRevealing={false}
+          settlement={settlement}
+          onSettle={handleSettle}
+          onWithdraw={handleWithdraw}
           onClose={() => {
             setShowResultsModal(false);
             setSelectedAuctionId(null);
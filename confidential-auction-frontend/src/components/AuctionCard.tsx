@@ -1,9 +1,9 @@
 "use client";
 
-import { useState } from "react";
-import { AuctionInfo, AuctionType } from "@/hooks/useAuctionSystem";
-import { formatEther, formatTimeRemaining, formatAddress, getAuctionTypeText } from "@/lib/utils";
-import { Clock, User, Gavel, TrendingUp, Eye, Settings, Zap, Shield, Timer } from "lucide-react";
+import { useEffect, useState } from "react";
+import { AuctionInfo, AuctionStatus, AuctionType, LotStandard } from "@/hooks/useAuctionSystem";
+import { formatEther, formatTimeRemaining, formatAddress, getAuctionTypeText, getDutchPrice } from "@/lib/utils";
+import { Clock, User, Gavel, TrendingUp, TrendingDown, Eye, Settings, Zap, Shield, Timer, Flag, Package, Flame, Lock, EyeOff, Pencil, Tag, AlertTriangle, Images } from "lucide-react";
 
 interface AuctionCardProps {
   auction: AuctionInfo;
@@ -12,6 +12,9 @@ interface AuctionCardProps {
   onViewResults?: (auctionId: number) => void;
   onSetAutoBid?: (auctionId: number) => void;
   onEndAuction?: (auctionId: number) => void;
+  onFinalize?: (auctionId: number) => void;
+  onClaimLot?: (auctionId: number) => void;
+  onEdit?: (auctionId: number) => void;
   isLoading?: boolean;
 }
 
@@ -22,42 +25,73 @@ export function AuctionCard({
   onViewResults,
   onSetAutoBid,
   onEndAuction,
+  onFinalize,
+  onClaimLot,
+  onEdit,
   isLoading = false,
 }: AuctionCardProps) {
   const [imageError, setImageError] = useState(false);
-  
-  const now = Math.floor(Date.now() / 1000);
-  const isActive = auction.status === 1 || auction.status === 2; // ACTIVE or EXTENDED
-  const isEnded = auction.status === 3 || auction.status === 4 || now > auction.endTime; // ENDED, CANCELLED or time expired
-  const isUpcoming = auction.status === 0 && now < auction.startTime; // PENDING and not started
-  const isPendingButStarted = auction.status === 0 && now >= auction.startTime && now <= auction.endTime; // PENDING but should be active
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const dutchPricing = auction.auctionType === AuctionType.DUTCH ? auction.dutchPricing : undefined;
+  const hasLivePrice = !!dutchPricing && BigInt(dutchPricing.startPrice) > BigInt(0);
+
+  // Tick every second so the Dutch price visibly falls
+  useEffect(() => {
+    if (!hasLivePrice) return;
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [hasLivePrice]);
+
+  const status = auction.effectiveStatus;
+  const isActive = status === AuctionStatus.ACTIVE || status === AuctionStatus.EXTENDED;
+  const isEnded = status >= AuctionStatus.ENDED; // ENDED, CANCELLED or FAILED
+  const isUpcoming = status === AuctionStatus.PENDING;
+  // Past its end time but nobody has moved the stored status to ENDED yet
+  const needsFinalize = status === AuctionStatus.ENDED && auction.status <= AuctionStatus.EXTENDED;
   const isCreator = userAddress && auction.creator.toLowerCase() === userAddress.toLowerCase();
   
   const statusText = isUpcoming ? "Upcoming" : 
-                    isPendingButStarted ? "Ready" :
-                    isActive ? (auction.status === 2 ? "Extended" : "Active") :
-                    auction.status === 4 ? "Cancelled" :
+                    status === AuctionStatus.ACTIVE ? "Active" :
+                    status === AuctionStatus.EXTENDED ? "Extended" :
+                    status === AuctionStatus.CANCELLED ? "Cancelled" :
+                    status === AuctionStatus.FAILED ? "Reserve Not Met" :
                     isEnded ? "Ended" : "Unknown";
 
-  const canBid = (isActive || isPendingButStarted) && !isCreator && userAddress;
+  const canBid = isActive && !isCreator && userAddress;
   const canViewResults = isEnded;
-  const canSetAutoBid = (isActive || isUpcoming || isPendingButStarted) && !isCreator && userAddress;
-  const canEndAuction = (isActive || isPendingButStarted) && isCreator;
+  const supportsAutoBid = auction.auctionType === AuctionType.ENGLISH || auction.auctionType === AuctionType.RESERVE;
+  const canSetAutoBid = supportsAutoBid && (isActive || isUpcoming) && !isCreator && userAddress;
+  const canEndAuction = isActive && isCreator;
+  // The contract locks the auction once the first bid is in
+  const canEdit = isCreator && !isEnded && auction.status === AuctionStatus.PENDING && auction.totalBids === 0;
+  const canFinalize = needsFinalize && userAddress;
+  // Claimable once settled or cancelled; the contract rejects earlier claims
+  const canClaimLot = !!auction.lot && !auction.lot.claimed && isEnded && !needsFinalize && userAddress;
+
+  // Escrowed tokens are shown with their on-chain metadata rather than the auction's image URL
+  const lotMetadata = auction.lot?.metadata;
+  // A verified off-chain listing takes precedence over the on-chain strings
+  const listing = auction.metadata;
+  const title = listing?.name || auction.title;
+  const description = listing?.description || auction.description;
+  const imageUrl = auction.lot ? lotMetadata?.image : listing?.image || auction.itemImageUrl;
+  // The curated on-chain category wins over the one the listing claims
+  const category = auction.category || listing?.category;
+  const attributes = listing?.attributes ?? [];
 
   const getStatusIcon = () => {
     if (isUpcoming) return Timer;
-    if (isPendingButStarted) return Zap;
-    if (isActive) return TrendingUp;
-    if (auction.status === 2) return Clock;
+    if (status === AuctionStatus.ACTIVE) return Zap;
+    if (status === AuctionStatus.EXTENDED) return Clock;
     return Eye;
   };
 
   const getStatusColor = () => {
     if (isUpcoming) return "from-blue-500 to-blue-600";
-    if (isPendingButStarted) return "from-green-500 to-green-600";
-    if (isActive) return "from-purple-500 to-purple-600";
-    if (auction.status === 2) return "from-orange-500 to-orange-600";
-    if (auction.status === 4) return "from-red-500 to-red-600";
+    if (status === AuctionStatus.ACTIVE) return "from-green-500 to-green-600";
+    if (status === AuctionStatus.EXTENDED) return "from-orange-500 to-orange-600";
+    if (status === AuctionStatus.CANCELLED) return "from-red-500 to-red-600";
+    if (status === AuctionStatus.FAILED) return "from-amber-500 to-amber-600";
     return "from-gray-500 to-gray-600";
   };
 
@@ -73,26 +107,46 @@ export function AuctionCard({
         </div>
       </div>
 
-      {/* Reserve Price Indicator */}
-      {auction.hasReservePrice && (
-        <div className="absolute top-4 left-4 z-10">
-          <div className="flex items-center space-x-1 px-2 py-1 rounded-full bg-gradient-to-r from-amber-500 to-amber-600 text-white text-xs font-medium">
-            <Shield className="w-3 h-3" />
-            <span>Reserve</span>
-          </div>
+      {/* Reserve Price and Private Indicators */}
+      {(auction.hasReservePrice || auction.allowlist || auction.isAnonymous) && (
+        <div className="absolute top-4 left-4 z-10 flex flex-col items-start space-y-1">
+          {auction.hasReservePrice && (
+            <div className="flex items-center space-x-1 px-2 py-1 rounded-full bg-gradient-to-r from-amber-500 to-amber-600 text-white text-xs font-medium">
+              <Shield className="w-3 h-3" />
+              <span>Reserve</span>
+            </div>
+          )}
+          {auction.allowlist && (
+            <div className="flex items-center space-x-1 px-2 py-1 rounded-full bg-gradient-to-r from-purple-500 to-purple-600 text-white text-xs font-medium">
+              <Lock className="w-3 h-3" />
+              <span>Private</span>
+            </div>
+          )}
+          {auction.isAnonymous && (
+            <div className="flex items-center space-x-1 px-2 py-1 rounded-full bg-gradient-to-r from-slate-500 to-slate-600 text-white text-xs font-medium">
+              <EyeOff className="w-3 h-3" />
+              <span>Anonymous</span>
+            </div>
+          )}
         </div>
       )}
 
       {/* Item Image */}
-      {auction.itemImageUrl && !imageError ? (
+      {imageUrl && !imageError ? (
         <div className="relative h-48 overflow-hidden rounded-t-lg">
           <img
-            src={auction.itemImageUrl}
-            alt={auction.title}
+            src={imageUrl}
+            alt={lotMetadata?.name || title}
             className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
             onError={() => setImageError(true)}
           />
           <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent"></div>
+          {listing && listing.images.length > 0 && (
+            <div className="absolute bottom-2 right-2 flex items-center space-x-1 px-2 py-1 rounded-full bg-black/60 text-white text-xs">
+              <Images className="w-3 h-3" />
+              <span>+{listing.images.length}</span>
+            </div>
+          )}
         </div>
       ) : (
         <div className="h-48 bg-gradient-to-br from-purple-500/20 to-cyan-400/20 flex items-center justify-center rounded-t-lg">
@@ -105,11 +159,64 @@ export function AuctionCard({
         {/* Title and Description */}
         <div className="mb-4">
           <h3 className="text-xl font-bold text-white mb-2 line-clamp-2 group-hover:text-transparent group-hover:bg-clip-text group-hover:bg-gradient-to-r group-hover:from-purple-400 group-hover:to-cyan-400 transition-all duration-300">
-            {auction.title}
+            {title}
           </h3>
           <p className="text-gray-400 text-sm line-clamp-2">
-            {auction.description}
+            {description}
           </p>
+          {(category || auction.tags.length > 0 || attributes.length > 0) && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {category && (
+                <span className="flex items-center px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300 text-xs">
+                  <Tag className="w-3 h-3 mr-1" />
+                  {category}
+                </span>
+              )}
+              {auction.tags.map((tag) => (
+                <span key={tag} className="px-2 py-0.5 rounded-full bg-cyan-500/10 text-cyan-300 text-xs">
+                  #{tag}
+                </span>
+              ))}
+              {attributes.slice(0, 4).map((attribute) => (
+                <span
+                  key={attribute.trait_type}
+                  className="px-2 py-0.5 rounded-full border border-gray-600 text-gray-300 text-xs"
+                >
+                  {attribute.trait_type}: {attribute.value}
+                </span>
+              ))}
+            </div>
+          )}
+          {auction.metadataURI && !listing && (
+            <p className="mt-2 flex items-center text-xs text-amber-400">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Listing metadata could not be loaded or verified
+            </p>
+          )}
+          {auction.lot && (
+            <p className="mt-2 flex items-center text-xs text-cyan-400">
+              <Package className="w-3 h-3 mr-1" />
+              {lotMetadata?.name || `Token #${auction.lot.tokenId}`}
+              {auction.lot.standard === LotStandard.ERC1155 && ` × ${auction.lot.amount}`}
+              {auction.lot.claimed && <span className="ml-2 text-gray-500">(delivered)</span>}
+            </p>
+          )}
+          {auction.extensionPolicy.extensionTime > 0 && auction.extensionCount > 0 && (
+            <p className="mt-2 flex items-center text-xs text-purple-400">
+              <Timer className="w-3 h-3 mr-1" />
+              {auction.extensionCount >= auction.extensionPolicy.maxExtensions
+                ? `Extension cap reached (${auction.extensionCount}/${auction.extensionPolicy.maxExtensions}), the end time is final`
+                : `Extended ${auction.extensionCount}/${auction.extensionPolicy.maxExtensions} times`}
+            </p>
+          )}
+          {auction.candleEnding && (
+            <p className="mt-2 flex items-center text-xs text-amber-400">
+              <Flame className="w-3 h-3 mr-1" />
+              {auction.candleEnding.closeTime
+                ? `Candle went out ${new Date(auction.candleEnding.closeTime * 1000).toLocaleString()}`
+                : `Candle ending: closes at random in the last ${Math.round(auction.candleEnding.window / 60)} min`}
+            </p>
+          )}
         </div>
 
         {/* Auction Info Grid */}
@@ -146,7 +253,7 @@ export function AuctionCard({
               <p className="text-sm text-white font-medium">
                 {isUpcoming ? (
                   `Starts in ${formatTimeRemaining(auction.startTime)}`
-                ) : (isActive || isPendingButStarted) ? (
+                ) : isActive ? (
                   <span className="text-green-400">{formatTimeRemaining(auction.endTime)} left</span>
                 ) : (
                   <span className="text-gray-400">Ended</span>
@@ -167,15 +274,32 @@ export function AuctionCard({
           </div>
         </div>
 
-        {/* Minimum Bid */}
-        <div className="mb-6 p-3 rounded-lg bg-gradient-to-r from-purple-500/10 to-cyan-400/10 border border-purple-500/20">
-          <div className="flex items-center justify-between">
-            <span className="text-sm text-gray-400">Min. Increment</span>
-            <span className="text-lg font-bold text-white font-mono">
-              {formatEther(auction.minimumBidIncrement)} ETH
-            </span>
+        {/* Minimum Bid, or the live price for Dutch auctions */}
+        {hasLivePrice && dutchPricing && !isEnded ? (
+          <div className="mb-6 p-3 rounded-lg bg-gradient-to-r from-orange-500/10 to-red-400/10 border border-orange-500/20">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-400 flex items-center">
+                <TrendingDown className="w-4 h-4 mr-1 text-orange-400" />
+                Current Price
+              </span>
+              <span className="text-lg font-bold text-white font-mono">
+                {formatEther(getDutchPrice(dutchPricing, auction.startTime, now))} ETH
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Floor {formatEther(dutchPricing.floorPrice)} ETH
+            </p>
           </div>
-        </div>
+        ) : (
+          <div className="mb-6 p-3 rounded-lg bg-gradient-to-r from-purple-500/10 to-cyan-400/10 border border-purple-500/20">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-400">Min. Increment</span>
+              <span className="text-lg font-bold text-white font-mono">
+                {formatEther(auction.minimumBidIncrement)} ETH
+              </span>
+            </div>
+          </div>
+        )}
 
         {/* Action Buttons */}
         <div className="flex flex-wrap gap-3">
@@ -186,7 +310,7 @@ export function AuctionCard({
               className="flex-1 neon-button flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Gavel className="w-4 h-4" />
-              <span>Place Bid</span>
+              <span>{auction.auctionType === AuctionType.DUTCH ? "Accept Price" : "Place Bid"}</span>
             </button>
           )}
 
@@ -211,6 +335,39 @@ export function AuctionCard({
             </button>
           )}
 
+          {canEdit && (
+            <button
+              onClick={() => onEdit?.(auction.id)}
+              disabled={isLoading}
+              className="flex-1 px-4 py-2 rounded-lg border border-blue-500/30 text-blue-400 hover:bg-blue-500/10 transition-all duration-300 flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              <Pencil className="w-4 h-4" />
+              <span>Edit</span>
+            </button>
+          )}
+
+          {canFinalize && (
+            <button
+              onClick={() => onFinalize?.(auction.id)}
+              disabled={isLoading}
+              className="flex-1 px-4 py-2 rounded-lg border border-gray-500/30 text-gray-300 hover:bg-gray-500/10 transition-all duration-300 flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              <Flag className="w-4 h-4" />
+              <span>Finalize</span>
+            </button>
+          )}
+
+          {canClaimLot && (
+            <button
+              onClick={() => onClaimLot?.(auction.id)}
+              disabled={isLoading}
+              className="flex-1 px-4 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/10 transition-all duration-300 flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              <Package className="w-4 h-4" />
+              <span>Claim Item</span>
+            </button>
+          )}
+
           {canSetAutoBid && (
             <button
               onClick={() => onSetAutoBid?.(auction.id)}
@@ -1,57 +1,203 @@
 "use client";
 
 import { useState } from "react";
+import { ZeroAddress, ZeroHash } from "ethers";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Badge } from "@/components/ui/Badge";
-import { AuctionInfo } from "@/hooks/useAuctionSystem";
-import { formatEther, parseEther, getAuctionTypeText } from "@/lib/utils";
-import { Gavel, DollarSign, X, Shield, Zap } from "lucide-react";
+import { AuctionInfo, AuctionStatus, AuctionType } from "@/hooks/useAuctionSystem";
+import { formatEther, parseEther, getAuctionTypeText, getDutchPrice, MAX_DEPOSIT_WEI } from "@/lib/utils";
+import { Gavel, DollarSign, X, Shield, Zap, Lock } from "lucide-react";
 
 interface BidModalProps {
   auction: AuctionInfo | null;
   onClose: () => void;
-  onPlaceBid: (auctionId: number, bidAmount: string) => Promise<void>;
-  onSetAutoBid?: (auctionId: number, maxBidAmount: string) => Promise<void>;
+  onPlaceBid: (auctionId: number, bidAmount: string, depositAmount: string, revise?: boolean) => Promise<void>;
+  onWithdrawBid?: (auctionId: number) => Promise<void>;
+  onSetAutoBid?: (auctionId: number, maxBidAmount: string, depositAmount: string) => Promise<void>;
+  onAcceptPrice?: (auctionId: number, maxPrice: string, depositAmount: string) => Promise<void>;
+  onCheckLastBid?: (auctionId: number) => Promise<boolean | undefined>;
+  onPlaceUnitBid?: (auctionId: number, unitPrice: string, quantity: number, depositAmount: string) => Promise<void>;
+  onCheckAllocation?: (auctionId: number) => Promise<number | undefined>;
+  onRegisterBidder?: (auctionId: number, bidders: string[]) => Promise<void>;
+  initialBidType?: "manual" | "auto";
   isBidding: boolean;
 }
 
-export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding }: BidModalProps) {
+export function BidModal({
+  auction,
+  onClose,
+  onPlaceBid,
+  onWithdrawBid,
+  onSetAutoBid,
+  onAcceptPrice,
+  onCheckLastBid,
+  onPlaceUnitBid,
+  onCheckAllocation,
+  onRegisterBidder,
+  initialBidType = "manual",
+  isBidding,
+}: BidModalProps) {
   const [bidAmount, setBidAmount] = useState("");
+  const [depositAmount, setDepositAmount] = useState("");
   const [maxAutoBid, setMaxAutoBid] = useState("");
-  const [bidType, setBidType] = useState<"manual" | "auto">("manual");
+  const [bidType, setBidType] = useState<"manual" | "auto">(initialBidType);
   const [error, setError] = useState("");
+  const [lastBidStatus, setLastBidStatus] = useState<"accepted" | "rejected" | "none" | null>(null);
+  const [isCheckingBid, setIsCheckingBid] = useState(false);
+  const [reviseExisting, setReviseExisting] = useState(false);
+  const [quantity, setQuantity] = useState("1");
+  const [allocation, setAllocation] = useState<number | null>(null);
+  const [isCheckingAllocation, setIsCheckingAllocation] = useState(false);
+  const [allowlistBidders, setAllowlistBidders] = useState("");
+  const [isRegistering, setIsRegistering] = useState(false);
 
   if (!auction) return null;
 
   const minIncrement = parseFloat(formatEther(auction.minimumBidIncrement));
+  const isDutch = auction.auctionType === AuctionType.DUTCH && !!auction.dutchPricing && !!onAcceptPrice;
+  // Anonymous bids are keyed by a one-time commitment, so they cannot be revised, withdrawn or checked later
+  const isAnonymous = auction.isAnonymous;
+  const supportsAutoBid = !isAnonymous &&
+    (auction.auctionType === AuctionType.ENGLISH || auction.auctionType === AuctionType.RESERVE);
+  // Sealed bids can be lowered or withdrawn; open auction bids only go up
+  const isSealed = auction.auctionType === AuctionType.SEALED_BID ||
+    auction.auctionType === AuctionType.SEALED_BID_SECOND_PRICE;
+  const isMultiUnit = auction.auctionType === AuctionType.MULTI_UNIT_UNIFORM && !!onPlaceUnitBid;
+  const currentPrice = isDutch ? getDutchPrice(auction.dutchPricing!, auction.startTime) : BigInt(0);
 
   const validateBid = (amount: string) => {
     const value = parseFloat(amount);
     if (isNaN(value) || value <= 0) {
       return "Please enter a valid bid amount";
     }
-    if (value < minIncrement) {
+    if (!isDutch && value < minIncrement) {
       return `Minimum bid increment is ${minIncrement} ETH`;
     }
     return "";
   };
 
+  // Only checks this deposit; the contract also rejects it once the bidder's total would pass the cap
+  const validateDeposit = (depositWei: string) => {
+    if (BigInt(depositWei) > MAX_DEPOSIT_WEI) {
+      return `Deposits are capped at ${formatEther(MAX_DEPOSIT_WEI)} ETH per auction`;
+    }
+    return "";
+  };
+
+  const paysInToken = auction.paymentToken !== ZeroAddress;
+
+  const handleCheckLastBid = async () => {
+    if (!onCheckLastBid) return;
+    setIsCheckingBid(true);
+    try {
+      const accepted = await onCheckLastBid(auction.id);
+      setLastBidStatus(accepted === undefined ? "none" : accepted ? "accepted" : "rejected");
+    } finally {
+      setIsCheckingBid(false);
+    }
+  };
+
+  const handleCheckAllocation = async () => {
+    if (!onCheckAllocation) return;
+    setIsCheckingAllocation(true);
+    try {
+      const units = await onCheckAllocation(auction.id);
+      setAllocation(units ?? null);
+    } finally {
+      setIsCheckingAllocation(false);
+    }
+  };
+
+  // The proof is built from the full list the creator shared, which must hash to the auction's root
+  const handleRegister = async () => {
+    if (!onRegisterBidder) return;
+    setError("");
+    setIsRegistering(true);
+    try {
+      await onRegisterBidder(auction.id, allowlistBidders.split(/[\s,]+/).filter(Boolean));
+      setAllowlistBidders("");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to register. Please try again.");
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleWithdrawBid = async () => {
+    if (!onWithdrawBid) return;
+    setError("");
+    try {
+      await onWithdrawBid(auction.id);
+      onClose();
+    } catch (error) {
+      setError("Failed to withdraw bid. Please try again.");
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
 
-    if (bidType === "manual") {
+    if (isMultiUnit) {
       const validationError = validateBid(bidAmount);
       if (validationError) {
         setError(validationError);
         return;
       }
+      const units = parseInt(quantity);
+      if (isNaN(units) || units < 1 || units > auction.totalUnits) {
+        setError(`Quantity must be between 1 and ${auction.totalUnits}`);
+        return;
+      }
+
+      try {
+        // The deposit must cover the unit price times the quantity, and defaults to exactly that
+        const unitPriceWei = parseEther(bidAmount);
+        const depositWei = depositAmount
+          ? parseEther(depositAmount)
+          : (BigInt(unitPriceWei) * BigInt(units)).toString();
+        const depositError = validateDeposit(depositWei);
+        if (depositError) {
+          setError(depositError);
+          return;
+        }
+        await onPlaceUnitBid!(auction.id, unitPriceWei, units, depositWei);
+        onClose();
+      } catch (error) {
+        setError("Failed to place bid. Please try again.");
+      }
+    } else if (bidType === "manual") {
+      const validationError = validateBid(bidAmount);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+
+      // The deposit defaults to the bid itself; any other amount is locked as-is.
+      // A revision only tops up the deposit by what is entered.
+      const deposit = depositAmount || (reviseExisting ? "0" : bidAmount);
+      const depositValue = parseFloat(deposit);
+      if (isNaN(depositValue) || depositValue < 0) {
+        setError("Please enter a valid deposit amount");
+        return;
+      }
 
       try {
         const bidAmountWei = parseEther(bidAmount);
-        await onPlaceBid(auction.id, bidAmountWei);
+        // Lock the public current price by default so a Dutch deposit does not hint at the maximum
+        const depositWei = isDutch && !depositAmount ? currentPrice.toString() : parseEther(deposit);
+        const depositError = paysInToken ? "" : validateDeposit(depositWei);
+        if (depositError) {
+          setError(depositError);
+          return;
+        }
+        if (isDutch) {
+          await onAcceptPrice!(auction.id, bidAmountWei, depositWei);
+        } else {
+          await onPlaceBid(auction.id, bidAmountWei, depositWei, reviseExisting);
+        }
         onClose();
       } catch (error) {
         setError("Failed to place bid. Please try again.");
@@ -63,9 +209,22 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
         return;
       }
 
+      const deposit = depositAmount || maxAutoBid;
+      const depositValue = parseFloat(deposit);
+      if (isNaN(depositValue) || depositValue < 0) {
+        setError("Please enter a valid deposit amount");
+        return;
+      }
+
       try {
         const maxBidAmountWei = parseEther(maxAutoBid);
-        await onSetAutoBid?.(auction.id, maxBidAmountWei);
+        const depositWei = parseEther(deposit);
+        const depositError = paysInToken ? "" : validateDeposit(depositWei);
+        if (depositError) {
+          setError(depositError);
+          return;
+        }
+        await onSetAutoBid?.(auction.id, maxBidAmountWei, depositWei);
         onClose();
       } catch (error) {
         setError("Failed to set auto-bid. Please try again.");
@@ -106,10 +265,22 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
                 <span className="text-gray-600">Type:</span>
                 <span className="font-medium">{getAuctionTypeText(auction.auctionType)}</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Min. Increment:</span>
-                <span className="font-mono font-medium">{formatEther(auction.minimumBidIncrement)} ETH</span>
-              </div>
+              {isDutch ? (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Current Price:</span>
+                  <span className="font-mono font-medium">{formatEther(currentPrice)} ETH</span>
+                </div>
+              ) : isMultiUnit ? (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Units for Sale:</span>
+                  <span className="font-medium">{auction.totalUnits}</span>
+                </div>
+              ) : (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Min. Increment:</span>
+                  <span className="font-mono font-medium">{formatEther(auction.minimumBidIncrement)} ETH</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Total Bids:</span>
                 <span className="font-medium">{auction.totalBids}</span>
@@ -120,6 +291,56 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
                   <span className="text-blue-600 font-medium">Reserve Price Set</span>
                 </div>
               )}
+              {auction.allowlist && (
+                <div className="flex items-center text-sm">
+                  <Lock className="w-4 h-4 mr-1 text-purple-500" />
+                  <span className="text-purple-600 font-medium">Private Auction: allowlisted bidders only</span>
+                </div>
+              )}
+              {auction.allowlist && auction.allowlist.merkleRoot !== ZeroHash && onRegisterBidder && (
+                <div className="space-y-2 pt-1">
+                  <textarea
+                    value={allowlistBidders}
+                    onChange={(e) => setAllowlistBidders(e.target.value)}
+                    placeholder="Paste the allowlist shared by the creator to register"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRegister}
+                    disabled={isRegistering || !allowlistBidders.trim()}
+                  >
+                    {isRegistering ? "Registering..." : "Register on Allowlist"}
+                  </Button>
+                </div>
+              )}
+              {onCheckLastBid && !isAnonymous && (
+                <div className="flex items-center justify-between text-sm pt-1">
+                  <Button type="button" variant="outline" size="sm" onClick={handleCheckLastBid} disabled={isCheckingBid}>
+                    {isCheckingBid ? "Decrypting..." : "Check My Last Bid"}
+                  </Button>
+                  {lastBidStatus === "accepted" && <Badge variant="success">Accepted</Badge>}
+                  {lastBidStatus === "rejected" && <Badge variant="destructive">Not accepted</Badge>}
+                  {lastBidStatus === "none" && <span className="text-gray-500">No bid yet</span>}
+                </div>
+              )}
+              {isMultiUnit && onCheckAllocation && auction.effectiveStatus >= AuctionStatus.ENDED && (
+                <div className="flex items-center justify-between text-sm pt-1">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCheckAllocation}
+                    disabled={isCheckingAllocation}
+                  >
+                    {isCheckingAllocation ? "Decrypting..." : "Show My Allocation"}
+                  </Button>
+                  {allocation !== null && <span className="font-medium">{allocation} unit(s)</span>}
+                </div>
+              )}
             </div>
 
             {/* Bid Type Selection */}
@@ -135,7 +356,7 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
                   <DollarSign className="w-4 h-4 mr-1" />
                   Manual Bid
                 </Button>
-                {onSetAutoBid && (
+                {onSetAutoBid && supportsAutoBid && !isMultiUnit && (
                   <Button
                     type="button"
                     variant={bidType === "auto" ? "default" : "outline"}
@@ -152,8 +373,8 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
               {bidType === "auto" && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                   <p className="text-sm text-blue-800">
-                    <strong>Auto-Bid:</strong> Set your maximum bid amount. The system will automatically 
-                    place bids for you up to this limit when others bid.
+                    <strong>Auto-Bid:</strong> Set your maximum bid amount. Whenever someone else bids, the
+                    contract raises your bid by the minimum increment, up to this hidden limit and your deposit.
                   </p>
                 </div>
               )}
@@ -163,7 +384,7 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium mb-2">
-                  {bidType === "manual" ? "Bid Amount (ETH)" : "Maximum Bid Amount (ETH)"}
+                  {isDutch ? "Maximum Price (ETH)" : isMultiUnit ? "Unit Price (ETH)" : bidType === "manual" ? "Bid Amount (ETH)" : "Maximum Bid Amount (ETH)"}
                 </label>
                 <Input
                   type="number"
@@ -178,7 +399,10 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
                     }
                     setError("");
                   }}
-                  placeholder={`Minimum: ${minIncrement} ETH`}
+                  placeholder={
+                    isDutch ? `Current price: ${formatEther(currentPrice)} ETH`
+                      : `Highest bid + ${minIncrement} ETH`
+                  }
                   className={error ? "border-red-500" : ""}
                 />
                 {error && (
@@ -186,12 +410,101 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
                 )}
               </div>
 
+              {isMultiUnit && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Quantity
+                  </label>
+                  <Input
+                    type="number"
+                    step="1"
+                    min="1"
+                    max={auction.totalUnits}
+                    value={quantity}
+                    onChange={(e) => {
+                      setQuantity(e.target.value);
+                      setError("");
+                    }}
+                  />
+                </div>
+              )}
+
+              {bidType === "manual" && !isDutch && !isMultiUnit && !isAnonymous && (
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={reviseExisting}
+                    onChange={(e) => setReviseExisting(e.target.checked)}
+                  />
+                  <span>
+                    {isSealed
+                      ? "Replace my existing bid (it may be lower)"
+                      : "Raise my existing bid"}
+                  </span>
+                </label>
+              )}
+
+              {isAnonymous && (
+                <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
+                  <p className="text-sm text-purple-800">
+                    This auction is anonymous: your bid is placed under a one-time commitment and no event names
+                    you. The deposit is still paid by the connected account, so bid from a fresh account to stay
+                    unlinked. Withdrawing the deposit needs the salt kept in this browser.
+                  </p>
+                </div>
+              )}
+
+              {paysInToken && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                  <p className="text-sm text-blue-800">
+                    This auction is paid in a confidential token. Your wallet will first approve an
+                    encrypted allowance, then the bid is pulled into escrow without revealing the amount.
+                  </p>
+                </div>
+              )}
+
+              {!paysInToken && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Deposit (ETH)
+                  </label>
+                  <Input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={depositAmount}
+                    onChange={(e) => {
+                      setDepositAmount(e.target.value);
+                      setError("");
+                    }}
+                    placeholder={
+                      isDutch ? `Default: ${formatEther(currentPrice)} ETH`
+                        : isMultiUnit ? "Defaults to unit price × quantity"
+                        : bidType === "auto" ? (maxAutoBid ? `Default: ${maxAutoBid} ETH` : "Defaults to your maximum")
+                        : reviseExisting ? "Extra collateral, default 0"
+                        : bidAmount ? `Default: ${bidAmount} ETH` : "Defaults to your bid"
+                    }
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {isDutch
+                      ? "If your hidden maximum meets the current price, you win at that price and the auction ends."
+                      : isMultiUnit
+                      ? "The deposit must cover your unit price times quantity. Every winner pays the clearing " +
+                        "price and gets the rest of the deposit back."
+                      : "Deposits are public and add up across your bids. A bid above your total deposit " +
+                        "is ignored; lock more than you bid to keep the amount hidden."}
+                    {` Bids are 64-bit amounts in wei, so your total deposit is capped at ${formatEther(MAX_DEPOSIT_WEI)} ETH.`}
+                  </p>
+                </div>
+              )}
+
               {/* Privacy Notice */}
               <div className="bg-green-50 border border-green-200 rounded-lg p-3">
                 <p className="text-sm text-green-800">
                   <Shield className="w-4 h-4 inline mr-1" />
                   <strong>Privacy Protected:</strong> Your bid amount will be encrypted and hidden 
-                  from other bidders until the auction ends.
+                  from other bidders until the auction ends. A bid that does not beat the current highest
+                  bid by the minimum increment is silently ignored; only you can check whether it counted.
                 </p>
               </div>
 
@@ -221,7 +534,7 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
                       {bidType === "manual" ? (
                         <>
                           <Gavel className="w-4 h-4 mr-2" />
-                          Place Bid
+                          {isDutch ? "Accept Price" : isMultiUnit ? "Place Unit Bid" : reviseExisting ? "Revise Bid" : "Place Bid"}
                         </>
                       ) : (
                         <>
@@ -233,6 +546,19 @@ export function BidModal({ auction, onClose, onPlaceBid, onSetAutoBid, isBidding
                   )}
                 </Button>
               </div>
+
+              {isSealed && onWithdrawBid && !isAnonymous && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleWithdrawBid}
+                  disabled={isBidding}
+                  className="w-full text-red-600"
+                >
+                  Withdraw My Bid
+                </Button>
+              )}
             </form>
           </div>
         </CardContent>
@@ -5,12 +5,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Badge } from "@/components/ui/Badge";
-import { AuctionType } from "@/hooks/useAuctionSystem";
+import { AuctionInfo, AuctionStatus, AuctionType, CandleEnding, Category, DutchPricing, ExtensionPolicy } from "@/hooks/useAuctionSystem";
+import { ethers } from "ethers";
 import { parseEther } from "@/lib/utils";
-import { Plus, Calendar, DollarSign, Clock, Shield } from "lucide-react";
+import { normalizeTags } from "@/lib/search";
+import { Plus, Calendar, DollarSign, Clock, Shield, TrendingDown, Layers, Flame, Lock, EyeOff, Pencil } from "lucide-react";
+
+// Mirrors the contract's MAX_TAGS; each tag is stored as a bytes32 string
+const MAX_TAGS = 5;
 
 interface CreateAuctionFormProps {
-  onCreateAuction: (
+  onCreateAuction?: (
     title: string,
     description: string,
     itemImageUrl: string,
@@ -18,34 +23,103 @@ interface CreateAuctionFormProps {
     startTime: number,
     endTime: number,
     minimumBidIncrement: string,
-    extensionTime: number,
+    extensionPolicy: ExtensionPolicy,
     hasReservePrice: boolean,
-    reservePrice?: string
+    reservePrice?: string,
+    dutchPricing?: DutchPricing,
+    totalUnits?: number,
+    candleEnding?: Pick<CandleEnding, "window" | "periods">,
+    allowlist?: { bidders: string[]; merkle: boolean },
+    anonymous?: boolean,
+    metadataURI?: string,
+    classification?: { categoryId: number; tags: string[] }
   ) => Promise<void>;
+  // Edit mode: the auction to edit, which nobody bid in yet
+  auction?: AuctionInfo;
+  onUpdateAuction?: (
+    auctionId: number,
+    title: string,
+    description: string,
+    itemImageUrl: string,
+    schedule?: { startTime: number; endTime: number }
+  ) => Promise<void>;
+  categories?: Category[];
   isCreating: boolean;
 }
 
-export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuctionFormProps) {
+// datetime-local inputs take local times
+function toDateTimeLocal(timestamp: number) {
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
+export function CreateAuctionForm({
+  onCreateAuction,
+  auction,
+  onUpdateAuction,
+  categories = [],
+  isCreating,
+}: CreateAuctionFormProps) {
   // Set default times: start in 1 hour, end in 25 hours
   const now = new Date();
   const defaultStartTime = new Date(now.getTime() + 60 * 60 * 1000); // 1 hour from now
   const defaultEndTime = new Date(now.getTime() + 25 * 60 * 60 * 1000); // 25 hours from now
 
+  // Only the metadata can be edited, and the schedule until the auction starts
+  const isEditing = !!auction;
+  const canReschedule = isEditing && auction.effectiveStatus === AuctionStatus.PENDING;
+  const initialStartTime = auction ? toDateTimeLocal(auction.startTime) : defaultStartTime.toISOString().slice(0, 16);
+  const initialEndTime = auction ? toDateTimeLocal(auction.endTime) : defaultEndTime.toISOString().slice(0, 16);
+
   const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    itemImageUrl: "",
-    auctionType: AuctionType.ENGLISH,
-    startTime: defaultStartTime.toISOString().slice(0, 16),
-    endTime: defaultEndTime.toISOString().slice(0, 16),
+    title: auction?.title ?? "",
+    description: auction?.description ?? "",
+    itemImageUrl: auction?.itemImageUrl ?? "",
+    auctionType: auction?.auctionType ?? AuctionType.ENGLISH,
+    startTime: initialStartTime,
+    endTime: initialEndTime,
     minimumBidIncrement: "0.01",
-    extensionTime: "300", // 5 minutes
+    // The schedule checks below also hold the edited auction's extensions and candle ending
+    extensionTime: auction ? auction.extensionPolicy.extensionTime.toString() : "300", // 5 minutes
+    extensionThreshold: auction ? auction.extensionPolicy.threshold.toString() : "300",
+    maxExtensions: auction ? auction.extensionPolicy.maxExtensions.toString() : "3",
     hasReservePrice: false,
     reservePrice: "",
+    startPrice: "",
+    floorPrice: "",
+    priceDropPerHour: "",
+    units: "1",
+    hasCandleEnding: !!auction?.candleEnding,
+    candleWindowMinutes: auction?.candleEnding ? (auction.candleEnding.window / 60).toString() : "10",
+    candlePeriods: auction?.candleEnding ? auction.candleEnding.periods.toString() : "6",
+    isPrivate: false,
+    allowlistBidders: "",
+    useMerkleAllowlist: false,
+    isAnonymous: false,
+    metadataURI: "",
+    categoryId: "0",
+    tags: "",
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Only open ascending auctions can close at a random time instead of extending on late bids
+  const supportsCandleEnding = formData.auctionType === AuctionType.ENGLISH ||
+    formData.auctionType === AuctionType.RESERVE;
+
+  // Addresses separated by commas, spaces or new lines
+  const parseBidderList = (list: string) => list.split(/[\s,]+/).filter(Boolean);
+
+  // Tags separated by commas, so they can contain spaces
+  const parseTagList = (list: string) => normalizeTags(list.split(","));
+
+  // Retired categories take no new auctions
+  const activeCategories = categories.filter((category) => !category.retired);
+
+  // Anonymous bids need an ETH-paid ascending or sealed-bid auction open to everyone
+  const supportsAnonymousBids = formData.auctionType !== AuctionType.DUTCH &&
+    formData.auctionType !== AuctionType.MULTI_UNIT_UNIFORM && !formData.isPrivate;
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -65,7 +139,8 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
       newErrors.endTime = "End time is required";
     }
 
-    if (formData.startTime && formData.endTime) {
+    // A started auction keeps its schedule
+    if (formData.startTime && formData.endTime && (!isEditing || canReschedule)) {
       const start = new Date(formData.startTime).getTime();
       const end = new Date(formData.endTime).getTime();
       const now = Date.now();
@@ -88,6 +163,82 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
       newErrors.minimumBidIncrement = "Must be a positive number";
     }
 
+    // Mirrors the contract's validation; the total extension is capped at 7 days
+    const extensionTime = parseInt(formData.extensionTime || "0");
+    if (isNaN(extensionTime) || extensionTime < 0) {
+      newErrors.extensionTime = "Must be zero or more";
+    } else if (extensionTime > 0) {
+      const threshold = parseInt(formData.extensionThreshold);
+      const maxExtensions = parseInt(formData.maxExtensions);
+      const duration = (new Date(formData.endTime).getTime() - new Date(formData.startTime).getTime()) / 1000;
+      if (isNaN(threshold) || threshold <= 0 || threshold > duration) {
+        newErrors.extensionThreshold = "Must be positive and no longer than the auction";
+      }
+      if (isNaN(maxExtensions) || maxExtensions < 1) {
+        newErrors.maxExtensions = "Allow at least one extension";
+      } else if (extensionTime * maxExtensions > 7 * 24 * 3600) {
+        newErrors.maxExtensions = "Extensions cannot add up to more than 7 days";
+      }
+    }
+
+    if (!isEditing && formData.auctionType === AuctionType.DUTCH) {
+      const startPrice = parseFloat(formData.startPrice);
+      const floorPrice = parseFloat(formData.floorPrice);
+      const priceDrop = parseFloat(formData.priceDropPerHour || "0");
+      if (isNaN(startPrice) || startPrice <= 0) {
+        newErrors.startPrice = "Start price must be a positive number";
+      }
+      if (isNaN(floorPrice) || floorPrice <= 0 || floorPrice > startPrice) {
+        newErrors.floorPrice = "Floor price must be above 0 and at most the start price";
+      }
+      if (isNaN(priceDrop) || priceDrop < 0) {
+        newErrors.priceDropPerHour = "Price drop must be zero or more";
+      }
+    }
+
+    if (formData.auctionType === AuctionType.MULTI_UNIT_UNIFORM) {
+      const units = parseInt(formData.units);
+      if (isNaN(units) || units < 1 || units > 10) {
+        newErrors.units = "Units must be between 1 and 10";
+      }
+      if (formData.hasReservePrice) {
+        newErrors.reservePrice = "Multi-unit auctions do not support a reserve price";
+      }
+    }
+
+    if (supportsCandleEnding && formData.hasCandleEnding) {
+      const windowSeconds = parseFloat(formData.candleWindowMinutes) * 60;
+      const periods = parseInt(formData.candlePeriods);
+      if (isNaN(periods) || periods < 2 || periods > 12) {
+        newErrors.candlePeriods = "Periods must be between 2 and 12";
+      }
+      if (isNaN(windowSeconds) || windowSeconds < periods) {
+        newErrors.candleWindowMinutes = "Window must be a positive number of minutes";
+      } else if (formData.startTime && formData.endTime &&
+        windowSeconds * 1000 > new Date(formData.endTime).getTime() - new Date(formData.startTime).getTime()) {
+        newErrors.candleWindowMinutes = "Window cannot be longer than the auction";
+      }
+    }
+
+    if (formData.isPrivate) {
+      const invalid = parseBidderList(formData.allowlistBidders).find((address) => !ethers.isAddress(address));
+      if (invalid) {
+        newErrors.allowlistBidders = `Invalid address: ${invalid}`;
+      } else if (formData.useMerkleAllowlist && parseBidderList(formData.allowlistBidders).length === 0) {
+        newErrors.allowlistBidders = "A Merkle allowlist needs at least one address";
+      }
+    }
+
+    if (!isEditing) {
+      const tags = parseTagList(formData.tags);
+      const invalid = tags.find((tag) => ethers.toUtf8Bytes(tag).length > 31);
+      if (tags.length > MAX_TAGS) {
+        newErrors.tags = `At most ${MAX_TAGS} tags`;
+      } else if (invalid) {
+        newErrors.tags = `Tag too long: ${invalid}`;
+      }
+    }
+
     if (formData.hasReservePrice) {
       const reserve = parseFloat(formData.reservePrice);
       if (isNaN(reserve) || reserve <= 0) {
@@ -109,11 +260,45 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
     try {
       const startTime = Math.floor(new Date(formData.startTime).getTime() / 1000);
       const endTime = Math.floor(new Date(formData.endTime).getTime() / 1000);
+
+      if (isEditing) {
+        const isRescheduled = formData.startTime !== initialStartTime || formData.endTime !== initialEndTime;
+        await onUpdateAuction?.(
+          auction.id,
+          formData.title,
+          formData.description,
+          formData.itemImageUrl,
+          canReschedule && isRescheduled ? { startTime, endTime } : undefined
+        );
+        setErrors({});
+        return;
+      }
+
       const minimumBidIncrement = parseEther(formData.minimumBidIncrement);
-      const extensionTime = parseInt(formData.extensionTime);
+      const extensionPolicy = {
+        threshold: parseInt(formData.extensionThreshold || "0"),
+        extensionTime: parseInt(formData.extensionTime || "0"),
+        maxExtensions: parseInt(formData.maxExtensions || "0"),
+      };
       const reservePrice = formData.hasReservePrice ? parseEther(formData.reservePrice) : undefined;
-
-      await onCreateAuction(
+      const dutchPricing = formData.auctionType === AuctionType.DUTCH ? {
+        startPrice: parseEther(formData.startPrice),
+        floorPrice: parseEther(formData.floorPrice),
+        priceDecayRate: (BigInt(parseEther(formData.priceDropPerHour || "0")) / BigInt(3600)).toString(),
+      } : undefined;
+      const totalUnits = formData.auctionType === AuctionType.MULTI_UNIT_UNIFORM
+        ? parseInt(formData.units)
+        : undefined;
+      const candleEnding = supportsCandleEnding && formData.hasCandleEnding ? {
+        window: Math.round(parseFloat(formData.candleWindowMinutes) * 60),
+        periods: parseInt(formData.candlePeriods),
+      } : undefined;
+      const allowlist = formData.isPrivate ? {
+        bidders: parseBidderList(formData.allowlistBidders),
+        merkle: formData.useMerkleAllowlist,
+      } : undefined;
+
+      await onCreateAuction?.(
         formData.title,
         formData.description,
         formData.itemImageUrl,
@@ -121,9 +306,16 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
         startTime,
         endTime,
         minimumBidIncrement,
-        extensionTime,
+        extensionPolicy,
         formData.hasReservePrice,
-        reservePrice
+        reservePrice,
+        dutchPricing,
+        totalUnits,
+        candleEnding,
+        allowlist,
+        supportsAnonymousBids && formData.isAnonymous,
+        formData.metadataURI.trim() || undefined,
+        { categoryId: parseInt(formData.categoryId), tags: parseTagList(formData.tags) }
       );
 
       // Reset form on success with new default times
@@ -140,12 +332,28 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
         endTime: resetEndTime.toISOString().slice(0, 16),
         minimumBidIncrement: "0.01",
         extensionTime: "300",
+        extensionThreshold: "300",
+        maxExtensions: "3",
         hasReservePrice: false,
         reservePrice: "",
+        startPrice: "",
+        floorPrice: "",
+        priceDropPerHour: "",
+        units: "1",
+        hasCandleEnding: false,
+        candleWindowMinutes: "10",
+        candlePeriods: "6",
+        isPrivate: false,
+        allowlistBidders: "",
+        useMerkleAllowlist: false,
+        isAnonymous: false,
+        metadataURI: "",
+        categoryId: "0",
+        tags: "",
       });
       setErrors({});
     } catch (error) {
-      console.error("Failed to create auction:", error);
+      console.error(isEditing ? "Failed to update auction:" : "Failed to create auction:", error);
     }
   };
 
@@ -171,11 +379,15 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
         <CardTitle className="flex items-center">
-          <Plus className="w-5 h-5 mr-2" />
-          Create New Auction
+          {isEditing ? <Pencil className="w-5 h-5 mr-2" /> : <Plus className="w-5 h-5 mr-2" />}
+          {isEditing ? "Edit Auction" : "Create New Auction"}
         </CardTitle>
         <CardDescription>
-          Set up a confidential auction where all bids are encrypted until reveal
+          {isEditing
+            ? canReschedule
+              ? "Fix the details or move the schedule; nothing else can change once the auction is created"
+              : "Fix the details until the first bid; the auction has started, so its schedule is final"
+            : "Set up a confidential auction where all bids are encrypted until reveal"}
         </CardDescription>
       </CardHeader>
 
@@ -229,151 +441,523 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
                 type="url"
               />
             </div>
-          </div>
 
-          {/* Auction Configuration */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold">Auction Configuration</h3>
-
-            <div>
-              <label className="block text-sm font-medium mb-2">
-                Auction Type
-              </label>
-              <select
-                value={formData.auctionType}
-                onChange={(e) => updateFormData("auctionType", parseInt(e.target.value))}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value={AuctionType.ENGLISH}>English (Ascending Price)</option>
-                <option value={AuctionType.DUTCH}>Dutch (Descending Price)</option>
-                <option value={AuctionType.SEALED_BID}>Sealed Bid</option>
-                <option value={AuctionType.RESERVE}>Reserve Auction</option>
-              </select>
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {!isEditing && (
               <div>
                 <label className="block text-sm font-medium mb-2">
-                  <Calendar className="w-4 h-4 inline mr-1" />
-                  Start Time *
+                  Listing Metadata URI (optional)
                 </label>
                 <Input
-                  type="datetime-local"
-                  value={formData.startTime}
-                  onChange={(e) => updateFormData("startTime", e.target.value)}
-                  className={errors.startTime ? "border-red-500" : ""}
+                  value={formData.metadataURI}
+                  onChange={(e) => updateFormData("metadataURI", e.target.value)}
+                  placeholder="ipfs://..."
                 />
-                {errors.startTime && (
-                  <p className="text-red-500 text-sm mt-1">{errors.startTime}</p>
-                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  JSON with images, attributes and a category; its hash is stored on-chain, so use a content-addressed URI
+                </p>
               </div>
+            )}
 
-              <div>
-                <label className="block text-sm font-medium mb-2">
-                  <Calendar className="w-4 h-4 inline mr-1" />
-                  End Time *
-                </label>
-                <Input
-                  type="datetime-local"
-                  value={formData.endTime}
-                  onChange={(e) => updateFormData("endTime", e.target.value)}
-                  className={errors.endTime ? "border-red-500" : ""}
-                />
-                {errors.endTime && (
-                  <p className="text-red-500 text-sm mt-1">{errors.endTime}</p>
-                )}
+            {!isEditing && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Category (optional)
+                  </label>
+                  <select
+                    value={formData.categoryId}
+                    onChange={(e) => updateFormData("categoryId", e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="0">Uncategorized</option>
+                    {activeCategories.map((category) => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Tags (optional)
+                  </label>
+                  <Input
+                    value={formData.tags}
+                    onChange={(e) => updateFormData("tags", e.target.value)}
+                    placeholder="vintage, swiss, limited edition"
+                    className={errors.tags ? "border-red-500" : ""}
+                  />
+                  {errors.tags ? (
+                    <p className="text-red-500 text-sm mt-1">{errors.tags}</p>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Up to {MAX_TAGS}, separated by commas
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
+          </div>
 
-            <Button
-              type="button"
-              variant="outline"
-              size="sm"
-              onClick={setDefaultTimes}
-              className="mb-2"
-            >
-              <Clock className="w-4 h-4 mr-1" />
-              Set Default Times
-            </Button>
+          {/* Auction Configuration */}
+          {(!isEditing || canReschedule) && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold">{isEditing ? "Schedule" : "Auction Configuration"}</h3>
+
+              {!isEditing && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Auction Type
+                  </label>
+                  <select
+                    value={formData.auctionType}
+                    onChange={(e) => updateFormData("auctionType", parseInt(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={AuctionType.ENGLISH}>English (Ascending Price)</option>
+                    <option value={AuctionType.DUTCH}>Dutch (Descending Price)</option>
+                    <option value={AuctionType.SEALED_BID}>Sealed Bid</option>
+                    <option value={AuctionType.SEALED_BID_SECOND_PRICE}>Sealed Bid (Second Price)</option>
+                    <option value={AuctionType.RESERVE}>Reserve Auction</option>
+                    <option value={AuctionType.MULTI_UNIT_UNIFORM}>Multi-Unit (Uniform Price)</option>
+                  </select>
+                </div>
+              )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium mb-2">
-                  <DollarSign className="w-4 h-4 inline mr-1" />
-                  Minimum Bid Increment (ETH) *
-                </label>
-                <Input
-                  type="number"
-                  step="0.001"
-                  min="0.001"
-                  value={formData.minimumBidIncrement}
-                  onChange={(e) => updateFormData("minimumBidIncrement", e.target.value)}
-                  className={errors.minimumBidIncrement ? "border-red-500" : ""}
-                />
-                {errors.minimumBidIncrement && (
-                  <p className="text-red-500 text-sm mt-1">{errors.minimumBidIncrement}</p>
-                )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    <Calendar className="w-4 h-4 inline mr-1" />
+                    Start Time *
+                  </label>
+                  <Input
+                    type="datetime-local"
+                    value={formData.startTime}
+                    onChange={(e) => updateFormData("startTime", e.target.value)}
+                    className={errors.startTime ? "border-red-500" : ""}
+                  />
+                  {errors.startTime && (
+                    <p className="text-red-500 text-sm mt-1">{errors.startTime}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    <Calendar className="w-4 h-4 inline mr-1" />
+                    End Time *
+                  </label>
+                  <Input
+                    type="datetime-local"
+                    value={formData.endTime}
+                    onChange={(e) => updateFormData("endTime", e.target.value)}
+                    className={errors.endTime ? "border-red-500" : ""}
+                  />
+                  {errors.endTime && (
+                    <p className="text-red-500 text-sm mt-1">{errors.endTime}</p>
+                  )}
+                </div>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium mb-2">
-                  Extension Time (seconds)
-                </label>
-                <Input
-                  type="number"
-                  min="0"
-                  value={formData.extensionTime}
-                  onChange={(e) => updateFormData("extensionTime", e.target.value)}
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Time to extend auction if bid placed in final minutes
-                </p>
-              </div>
+              {!isEditing && (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={setDefaultTimes}
+                    className="mb-2"
+                  >
+                    <Clock className="w-4 h-4 mr-1" />
+                    Set Default Times
+                  </Button>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        <DollarSign className="w-4 h-4 inline mr-1" />
+                        Minimum Bid Increment (ETH) *
+                      </label>
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0.001"
+                        value={formData.minimumBidIncrement}
+                        onChange={(e) => updateFormData("minimumBidIncrement", e.target.value)}
+                        className={errors.minimumBidIncrement ? "border-red-500" : ""}
+                      />
+                      {errors.minimumBidIncrement && (
+                        <p className="text-red-500 text-sm mt-1">{errors.minimumBidIncrement}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Extension Time (seconds)
+                      </label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={formData.extensionTime}
+                        onChange={(e) => updateFormData("extensionTime", e.target.value)}
+                        className={errors.extensionTime ? "border-red-500" : ""}
+                      />
+                      {errors.extensionTime && (
+                        <p className="text-red-500 text-sm mt-1">{errors.extensionTime}</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        Time to extend auction if bid placed in final minutes
+                      </p>
+                    </div>
+                  </div>
+
+                  {parseInt(formData.extensionTime || "0") > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium mb-2">
+                          Extension Threshold (seconds)
+                        </label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={formData.extensionThreshold}
+                          onChange={(e) => updateFormData("extensionThreshold", e.target.value)}
+                          className={errors.extensionThreshold ? "border-red-500" : ""}
+                        />
+                        {errors.extensionThreshold && (
+                          <p className="text-red-500 text-sm mt-1">{errors.extensionThreshold}</p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">
+                          A bid this close to the end extends the auction
+                        </p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium mb-2">
+                          Maximum Extensions
+                        </label>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={formData.maxExtensions}
+                          onChange={(e) => updateFormData("maxExtensions", e.target.value)}
+                          className={errors.maxExtensions ? "border-red-500" : ""}
+                        />
+                        {errors.maxExtensions && (
+                          <p className="text-red-500 text-sm mt-1">{errors.maxExtensions}</p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">
+                          After this many extensions the end time is final
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
-          </div>
+          )}
+
+          {!isEditing && (
+            <>
+              {/* Dutch Price Schedule */}
+              {formData.auctionType === AuctionType.DUTCH && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold flex items-center">
+                    <TrendingDown className="w-4 h-4 mr-1" />
+                    Price Schedule
+                  </h3>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Start Price (ETH) *
+                      </label>
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0.001"
+                        value={formData.startPrice}
+                        onChange={(e) => updateFormData("startPrice", e.target.value)}
+                        className={errors.startPrice ? "border-red-500" : ""}
+                      />
+                      {errors.startPrice && (
+                        <p className="text-red-500 text-sm mt-1">{errors.startPrice}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Floor Price (ETH)
+                      </label>
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        value={formData.floorPrice}
+                        onChange={(e) => updateFormData("floorPrice", e.target.value)}
+                        placeholder="0.1"
+                        className={errors.floorPrice ? "border-red-500" : ""}
+                      />
+                      {errors.floorPrice && (
+                        <p className="text-red-500 text-sm mt-1">{errors.floorPrice}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Price Drop per Hour (ETH)
+                      </label>
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        value={formData.priceDropPerHour}
+                        onChange={(e) => updateFormData("priceDropPerHour", e.target.value)}
+                        placeholder="0"
+                        className={errors.priceDropPerHour ? "border-red-500" : ""}
+                      />
+                      {errors.priceDropPerHour && (
+                        <p className="text-red-500 text-sm mt-1">{errors.priceDropPerHour}</p>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    The price is public and falls every second from the start time until it reaches the floor.
+                    The first bidder whose hidden maximum meets it wins.
+                  </p>
+                </div>
+              )}
 
-          {/* Reserve Price */}
-          <div className="space-y-4">
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id="hasReservePrice"
-                checked={formData.hasReservePrice}
-                onChange={(e) => updateFormData("hasReservePrice", e.target.checked)}
-                className="rounded"
-              />
-              <label htmlFor="hasReservePrice" className="text-sm font-medium flex items-center">
-                <Shield className="w-4 h-4 mr-1" />
-                Set Reserve Price
-              </label>
-              <Badge variant="info" className="text-xs">
-                Optional
-              </Badge>
-            </div>
+              {/* Multi-Unit Supply */}
+              {formData.auctionType === AuctionType.MULTI_UNIT_UNIFORM && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold flex items-center">
+                    <Layers className="w-4 h-4 mr-1" />
+                    Unit Supply
+                  </h3>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Units for Sale *
+                    </label>
+                    <Input
+                      type="number"
+                      step="1"
+                      min="1"
+                      max="10"
+                      value={formData.units}
+                      onChange={(e) => updateFormData("units", e.target.value)}
+                      className={errors.units ? "border-red-500" : ""}
+                    />
+                    {errors.units && (
+                      <p className="text-red-500 text-sm mt-1">{errors.units}</p>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Bidders ask for a hidden quantity at a hidden unit price. The highest bids win and every
+                    winner pays the lowest winning unit price.
+                  </p>
+                </div>
+              )}
 
-            {formData.hasReservePrice && (
-              <div>
-                <label className="block text-sm font-medium mb-2">
-                  Reserve Price (ETH) *
-                </label>
-                <Input
-                  type="number"
-                  step="0.001"
-                  min="0.001"
-                  value={formData.reservePrice}
-                  onChange={(e) => updateFormData("reservePrice", e.target.value)}
-                  placeholder="Minimum acceptable bid"
-                  className={errors.reservePrice ? "border-red-500" : ""}
-                />
-                {errors.reservePrice && (
-                  <p className="text-red-500 text-sm mt-1">{errors.reservePrice}</p>
+              {/* Candle Ending */}
+              {supportsCandleEnding && (
+                <div className="space-y-4">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="hasCandleEnding"
+                      checked={formData.hasCandleEnding}
+                      onChange={(e) => updateFormData("hasCandleEnding", e.target.checked)}
+                      className="rounded"
+                    />
+                    <label htmlFor="hasCandleEnding" className="text-sm font-medium flex items-center">
+                      <Flame className="w-4 h-4 mr-1" />
+                      Candle Ending
+                    </label>
+                    <Badge variant="info" className="text-xs">
+                      Optional
+                    </Badge>
+                  </div>
+
+                  {formData.hasCandleEnding && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium mb-2">
+                            Ending Window (minutes) *
+                          </label>
+                          <Input
+                            type="number"
+                            step="1"
+                            min="1"
+                            value={formData.candleWindowMinutes}
+                            onChange={(e) => updateFormData("candleWindowMinutes", e.target.value)}
+                            className={errors.candleWindowMinutes ? "border-red-500" : ""}
+                          />
+                          {errors.candleWindowMinutes && (
+                            <p className="text-red-500 text-sm mt-1">{errors.candleWindowMinutes}</p>
+                          )}
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium mb-2">
+                            Periods *
+                          </label>
+                          <Input
+                            type="number"
+                            step="1"
+                            min="2"
+                            max="12"
+                            value={formData.candlePeriods}
+                            onChange={(e) => updateFormData("candlePeriods", e.target.value)}
+                            className={errors.candlePeriods ? "border-red-500" : ""}
+                          />
+                          {errors.candlePeriods && (
+                            <p className="text-red-500 text-sm mt-1">{errors.candlePeriods}</p>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Late bids do not extend the auction. Once it is over, one of the periods of the ending window is
+                        drawn at random as the real close, and the highest bid at that point wins.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Bidder Allowlist */}
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="isPrivate"
+                    checked={formData.isPrivate}
+                    onChange={(e) => updateFormData("isPrivate", e.target.checked)}
+                    className="rounded"
+                  />
+                  <label htmlFor="isPrivate" className="text-sm font-medium flex items-center">
+                    <Lock className="w-4 h-4 mr-1" />
+                    Private Auction
+                  </label>
+                  <Badge variant="info" className="text-xs">
+                    Optional
+                  </Badge>
+                </div>
+
+                {formData.isPrivate && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Allowed Bidders
+                      </label>
+                      <textarea
+                        value={formData.allowlistBidders}
+                        onChange={(e) => updateFormData("allowlistBidders", e.target.value)}
+                        placeholder="0x..., one address per line or separated by commas"
+                        rows={4}
+                        className={`w-full px-3 py-2 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          errors.allowlistBidders ? "border-red-500" : "border-gray-300"
+                        }`}
+                      />
+                      {errors.allowlistBidders && (
+                        <p className="text-red-500 text-sm mt-1">{errors.allowlistBidders}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="useMerkleAllowlist"
+                        checked={formData.useMerkleAllowlist}
+                        onChange={(e) => updateFormData("useMerkleAllowlist", e.target.checked)}
+                        className="rounded"
+                      />
+                      <label htmlFor="useMerkleAllowlist" className="text-sm">
+                        Store only a Merkle root
+                      </label>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {formData.useMerkleAllowlist
+                        ? "Only the root of the list goes on-chain. Share the list with your bidders: they register " +
+                          "with a proof built from it before bidding."
+                        : "The addresses are allowed on-chain. You can add or remove bidders later on."}
+                    </p>
+                  </>
                 )}
-                <p className="text-xs text-gray-500 mt-1">
-                  This price will be encrypted and hidden until auction ends
-                </p>
               </div>
-            )}
-          </div>
+
+              {/* Anonymous Bidding */}
+              {supportsAnonymousBids && (
+                <div className="space-y-4">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="isAnonymous"
+                      checked={formData.isAnonymous}
+                      onChange={(e) => updateFormData("isAnonymous", e.target.checked)}
+                      className="rounded"
+                    />
+                    <label htmlFor="isAnonymous" className="text-sm font-medium flex items-center">
+                      <EyeOff className="w-4 h-4 mr-1" />
+                      Anonymous Bidding
+                    </label>
+                    <Badge variant="info" className="text-xs">
+                      Optional
+                    </Badge>
+                  </div>
+                  {formData.isAnonymous && (
+                    <p className="text-xs text-gray-500">
+                      Bids are placed under one-time commitments, so the bidder list and events show pseudonyms instead
+                      of addresses. The winner is revealed as a pseudonym. Bids cannot be revised or auto-raised.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Reserve Price */}
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="hasReservePrice"
+                    checked={formData.hasReservePrice}
+                    onChange={(e) => updateFormData("hasReservePrice", e.target.checked)}
+                    className="rounded"
+                  />
+                  <label htmlFor="hasReservePrice" className="text-sm font-medium flex items-center">
+                    <Shield className="w-4 h-4 mr-1" />
+                    Set Reserve Price
+                  </label>
+                  <Badge variant="info" className="text-xs">
+                    Optional
+                  </Badge>
+                </div>
+
+                {formData.hasReservePrice && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Reserve Price (ETH) *
+                    </label>
+                    <Input
+                      type="number"
+                      step="0.001"
+                      min="0.001"
+                      value={formData.reservePrice}
+                      onChange={(e) => updateFormData("reservePrice", e.target.value)}
+                      placeholder="Minimum acceptable bid"
+                      className={errors.reservePrice ? "border-red-500" : ""}
+                    />
+                    {errors.reservePrice && (
+                      <p className="text-red-500 text-sm mt-1">{errors.reservePrice}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      This price will be encrypted and hidden until auction ends
+                    </p>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
 
           {/* Submit Button */}
           <div className="pt-4 border-t">
@@ -385,7 +969,12 @@ export function CreateAuctionForm({ onCreateAuction, isCreating }: CreateAuction
               {isCreating ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Creating Auction...
+                  {isEditing ? "Saving Changes..." : "Creating Auction..."}
+                </>
+              ) : isEditing ? (
+                <>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Save Changes
                 </>
               ) : (
                 <>
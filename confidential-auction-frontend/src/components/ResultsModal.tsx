@@ -4,9 +4,9 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
-import { AuctionInfo, AuctionResults } from "@/hooks/useAuctionSystem";
+import { AuctionInfo, AuctionResults, AuctionSettlement, AuctionStatus, AuctionType } from "@/hooks/useAuctionSystem";
 import { formatEther, formatAddress, getAuctionTypeText } from "@/lib/utils";
-import { Trophy, Eye, X, Shield, DollarSign, User, Calendar } from "lucide-react";
+import { Trophy, Eye, X, Shield, DollarSign, User, Calendar, Wallet } from "lucide-react";
 
 interface ResultsModalProps {
   auction: AuctionInfo | null;
@@ -14,6 +14,9 @@ interface ResultsModalProps {
   onClose: () => void;
   onRevealResults: (auctionId: number) => Promise<void>;
   isRevealing: boolean;
+  settlement?: AuctionSettlement | null;
+  onSettle?: (auctionId: number) => Promise<void>;
+  onWithdraw?: (auctionId?: number) => Promise<void>;
 }
 
 export function ResultsModal({ 
@@ -21,15 +24,19 @@ export function ResultsModal({
   results, 
   onClose, 
   onRevealResults, 
-  isRevealing 
+  isRevealing,
+  settlement,
+  onSettle,
+  onWithdraw,
 }: ResultsModalProps) {
   const [showDecryption, setShowDecryption] = useState(false);
+  const [isSettling, setIsSettling] = useState(false);
 
   if (!auction) return null;
 
   const hasResults = results && results.auctionId === auction.id;
   const highestBidEth = hasResults ? formatEther(results.highestBid) : "0.0000";
-  const reservePriceEth = hasResults && results.reservePrice ? formatEther(results.reservePrice) : null;
+  const reserveMet = auction.status === AuctionStatus.FAILED ? false : hasResults ? results.reserveMet : undefined;
 
   const handleRevealResults = async () => {
     setShowDecryption(true);
@@ -42,6 +49,21 @@ export function ResultsModal({
     }
   };
 
+  const hasSettlement = settlement && settlement.auctionId === auction.id;
+  const canWithdrawDeposit = hasSettlement && settlement.settled && BigInt(settlement.deposit) > BigInt(0);
+  const canWithdrawProceeds = hasSettlement && BigInt(settlement.proceeds) > BigInt(0);
+
+  const handleSettlementAction = async (action: () => Promise<void> | undefined) => {
+    setIsSettling(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Settlement action failed:", error);
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <Card className="w-full max-w-lg">
@@ -111,8 +133,8 @@ export function ResultsModal({
                     Results Not Yet Revealed
                   </h3>
                   <p className="text-sm text-blue-800 mb-4">
-                    The auction results are still encrypted. Click below to decrypt and reveal 
-                    the winning bid and other details.
+                    The auction results are still encrypted. Click below to have the decryption 
+                    oracle publish the winner and winning bid on-chain.
                   </p>
                   
                   {showDecryption && (
@@ -120,11 +142,11 @@ export function ResultsModal({
                       <div className="flex items-center justify-center space-x-2">
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
                         <span className="text-sm text-blue-700">
-                          Decrypting results...
+                          Revealing results...
                         </span>
                       </div>
                       <p className="text-xs text-blue-600 mt-2">
-                        This may take a few moments while we decrypt the encrypted bids
+                        This may take a few moments while the decryption oracle answers
                       </p>
                     </div>
                   )}
@@ -159,7 +181,11 @@ export function ResultsModal({
                   
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
-                      <span className="text-yellow-800">Highest Bid:</span>
+                      <span className="text-yellow-800">
+                        {auction.auctionType === AuctionType.SEALED_BID_SECOND_PRICE ? "Clearing Price (2nd Bid):"
+                          : auction.auctionType === AuctionType.MULTI_UNIT_UNIFORM ? "Clearing Price (per Unit):"
+                          : "Highest Bid:"}
+                      </span>
                       <div className="flex items-center">
                         <DollarSign className="w-4 h-4 text-yellow-600 mr-1" />
                         <span className="font-mono font-bold text-lg text-yellow-900">
@@ -168,9 +194,27 @@ export function ResultsModal({
                       </div>
                     </div>
                     
+                    {auction.auctionType === AuctionType.MULTI_UNIT_UNIFORM && results.unitsSold !== undefined && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-yellow-800">Units Sold:</span>
+                        <span className="font-medium text-yellow-900">
+                          {results.unitsSold} / {auction.totalUnits}
+                        </span>
+                      </div>
+                    )}
+
+                    {results.candleCloseTime !== undefined && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-yellow-800">Candle Went Out:</span>
+                        <span className="font-medium text-yellow-900">
+                          {new Date(results.candleCloseTime * 1000).toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+
                     {results.winner && (
                       <div className="flex items-center justify-between">
-                        <span className="text-yellow-800">Winner:</span>
+                        <span className="text-yellow-800">{auction.isAnonymous ? "Winner (pseudonym):" : "Winner:"}</span>
                         <div className="flex items-center">
                           <User className="w-4 h-4 text-yellow-600 mr-1" />
                           <span className="font-mono text-sm text-yellow-900">
@@ -183,22 +227,20 @@ export function ResultsModal({
                 </div>
 
                 {/* Reserve Price (if applicable) */}
-                {auction.hasReservePrice && reservePriceEth && (
+                {auction.hasReservePrice && reserveMet !== undefined && (
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <div className="flex items-center mb-2">
                       <Shield className="w-5 h-5 text-blue-500 mr-2" />
                       <h3 className="font-semibold text-blue-900">Reserve Price</h3>
                     </div>
                     
-                    <div className="flex items-center justify-between">
-                      <span className="text-blue-800">Minimum Acceptable:</span>
-                      <span className="font-mono font-medium text-blue-900">
-                        {reservePriceEth} ETH
-                      </span>
-                    </div>
+                    <p className="text-sm text-blue-800">
+                      The reserve stays encrypted; only whether the highest bid reached it is revealed.
+                      {!reserveMet && " Nobody wins and every bidder can withdraw their full deposit once the auction is settled."}
+                    </p>
                     
                     <div className="mt-2">
-                      {parseFloat(highestBidEth) >= parseFloat(reservePriceEth) ? (
+                      {reserveMet ? (
                         <Badge variant="success" className="text-xs">
                           Reserve Met ✓
                         </Badge>
@@ -240,6 +282,66 @@ export function ResultsModal({
               </div>
             )}
 
+            {/* Settlement */}
+            {hasSettlement && (
+              <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                <div className="flex items-center">
+                  <Wallet className="w-5 h-5 text-gray-700 mr-2" />
+                  <h3 className="font-semibold text-gray-900">Escrow Settlement</h3>
+                </div>
+
+                {settlement.settled ? (
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-600">Winner:</span>
+                      <p className="font-mono text-xs">
+                        {BigInt(settlement.winningBid) > BigInt(0) ? formatAddress(settlement.winner) : "No winner"}
+                      </p>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Winning Bid:</span>
+                      <p className="font-mono">{formatEther(settlement.winningBid)} ETH</p>
+                    </div>
+                  </div>
+                ) : (
+                  <Button
+                    onClick={() => handleSettlementAction(() => onSettle?.(auction.id))}
+                    disabled={isSettling || !onSettle}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    Settle Auction
+                  </Button>
+                )}
+
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Your Deposit:</span>
+                  <span className="font-mono">{formatEther(settlement.deposit)} ETH</span>
+                </div>
+
+                {canWithdrawDeposit && (
+                  <Button
+                    onClick={() => handleSettlementAction(() => onWithdraw?.(auction.id))}
+                    disabled={isSettling}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    Withdraw Deposit
+                  </Button>
+                )}
+
+                {canWithdrawProceeds && (
+                  <Button
+                    onClick={() => handleSettlementAction(() => onWithdraw?.())}
+                    disabled={isSettling}
+                    className="w-full"
+                  >
+                    Withdraw {formatEther(settlement.proceeds)} ETH Proceeds
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Close Button */}
             <div className="pt-4 border-t">
               <Button
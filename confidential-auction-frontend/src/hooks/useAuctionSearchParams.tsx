@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AuctionType } from "@/hooks/useAuctionSystem";
+import { AuctionSearchState, AuctionSort, DEFAULT_SEARCH_STATE, StatusFilter } from "@/lib/search";
+
+const STATUSES: StatusFilter[] = ["all", "active", "upcoming", "ended"];
+const SORTS: AuctionSort[] = ["relevance", "ending", "bids", "newest"];
+
+// Only the plain decimal value of an AuctionType member, so "", "1.0" or "0x1" mean no filter
+function parseAuctionType(value: string | null): AuctionType | undefined {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  const auctionType = Number(value);
+  return AuctionType[auctionType] !== undefined ? auctionType : undefined;
+}
+
+// ?q=watch&status=active&category=Art&tags=vintage,swiss&type=0&sort=ending
+export function parseSearchParams(search: string): AuctionSearchState {
+  const params = new URLSearchParams(search);
+  const status = params.get("status") as StatusFilter;
+  const sort = params.get("sort") as AuctionSort;
+  return {
+    query: params.get("q") ?? "",
+    status: STATUSES.includes(status) ? status : DEFAULT_SEARCH_STATE.status,
+    category: params.get("category") || undefined,
+    tags: (params.get("tags") ?? "").split(",").filter((tag) => tag.length > 0),
+    auctionType: parseAuctionType(params.get("type")),
+    sort: SORTS.includes(sort) ? sort : DEFAULT_SEARCH_STATE.sort,
+  };
+}
+
+export function toSearchParams(state: AuctionSearchState): string {
+  const params = new URLSearchParams();
+  if (state.query) params.set("q", state.query);
+  if (state.status !== DEFAULT_SEARCH_STATE.status) params.set("status", state.status);
+  if (state.category) params.set("category", state.category);
+  if (state.tags.length > 0) params.set("tags", state.tags.join(","));
+  if (state.auctionType !== undefined) params.set("type", state.auctionType.toString());
+  if (state.sort !== DEFAULT_SEARCH_STATE.sort) params.set("sort", state.sort);
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+// Search state kept in the query string, so searches can be shared, bookmarked and restored with back/forward.
+// Reads window.location directly, which keeps the page statically renderable without a Suspense boundary.
+export function useAuctionSearchParams() {
+  const [state, setState] = useState<AuctionSearchState>(DEFAULT_SEARCH_STATE);
+
+  useEffect(() => {
+    setState(parseSearchParams(window.location.search));
+    const onPopState = () => setState(parseSearchParams(window.location.search));
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const updateState = useCallback((update: Partial<AuctionSearchState>) => {
+    const next = { ...state, ...update };
+    const search = toSearchParams(next);
+    if (search !== window.location.search) {
+      // Typing in the search box replaces the entry instead of piling up history
+      const url = `${window.location.pathname}${search}${window.location.hash}`;
+      if (Object.keys(update).every((key) => key === "query")) {
+        window.history.replaceState(null, "", url);
+      } else {
+        window.history.pushState(null, "", url);
+      }
+    }
+    setState(next);
+  }, [state]);
+
+  const resetState = useCallback(() => updateState(DEFAULT_SEARCH_STATE), [updateState]);
+
+  return { searchState: state, updateSearchState: updateState, resetSearchState: resetState };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { loadAuctionMetadata, MetadataFetcher } from "@/hooks/useAuctionSystem";
+
+const METADATA_URI = "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+
+// Serves a fixed document for any URI
+function stubFetcher(document: string): MetadataFetcher {
+  return async () => ethers.toUtf8Bytes(document);
+}
+
+function hashOf(document: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(document));
+}
+
+describe("loadAuctionMetadata", () => {
+  it("parses a listing that matches its hash", async () => {
+    const document = JSON.stringify({
+      name: "Vintage Watch",
+      description: "Swiss, 1962",
+      image: "ipfs://cover",
+      images: ["ipfs://side", 42, "https://example.com/back.png"],
+      category: "collectibles",
+      attributes: [
+        { trait_type: "Brand", value: "Omega" },
+        { trait_type: "Year", value: 1962 },
+        { trait_type: "Box", value: { included: true } },
+        { value: "untyped" },
+        null,
+      ],
+    });
+
+    const metadata = await loadAuctionMetadata(METADATA_URI, hashOf(document), stubFetcher(document));
+
+    expect(metadata).toEqual({
+      name: "Vintage Watch",
+      description: "Swiss, 1962",
+      image: "https://ipfs.io/ipfs/cover",
+      images: ["https://ipfs.io/ipfs/side", "https://example.com/back.png"],
+      category: "collectibles",
+      attributes: [
+        { trait_type: "Brand", value: "Omega" },
+        { trait_type: "Year", value: 1962 },
+      ],
+    });
+  });
+
+  it("rejects a listing that does not match its hash", async () => {
+    const document = JSON.stringify({ name: "Vintage Watch" });
+    const tampered = JSON.stringify({ name: "Replica Watch" });
+
+    await expect(loadAuctionMetadata(METADATA_URI, hashOf(document), stubFetcher(tampered))).rejects.toThrow(
+      `Metadata at ${METADATA_URI} does not match its hash`
+    );
+  });
+
+  it("rejects a listing that is not valid JSON", async () => {
+    const document = "{ name: Vintage Watch";
+
+    await expect(loadAuctionMetadata(METADATA_URI, hashOf(document), stubFetcher(document))).rejects.toThrow(
+      SyntaxError
+    );
+  });
+
+  it("ignores fields of the wrong type", async () => {
+    const document = JSON.stringify({ name: 7, images: "ipfs://single", attributes: { trait_type: "Brand" } });
+
+    const metadata = await loadAuctionMetadata(METADATA_URI, hashOf(document), stubFetcher(document));
+
+    expect(metadata).toEqual({
+      name: undefined,
+      description: undefined,
+      image: undefined,
+      images: [],
+      category: undefined,
+      attributes: [],
+    });
+  });
+});
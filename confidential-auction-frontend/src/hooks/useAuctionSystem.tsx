@@ -5,16 +5,71 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { FhevmInstance } from "@/fhevm/fhevmTypes";
 import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
 import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { buildAllowlistTree, resolveTokenURI } from "@/lib/utils";
+import { normalizeTags } from "@/lib/search";
 
 // Import generated ABI and addresses
 import { ConfidentialAuctionABI } from "@/abi/ConfidentialAuctionABI";
 import { ConfidentialAuctionAddresses } from "@/abi/ConfidentialAuctionAddresses";
+import { AuctionQueryABI } from "@/abi/AuctionQueryABI";
+
+// Auctions fetched per AuctionQuery call when loading the list
+const AUCTION_PAGE_SIZE = 50;
+
+// How long to wait for the decryption oracle to publish revealed results
+const REVEAL_POLL_ATTEMPTS = 30;
+const REVEAL_POLL_INTERVAL_MS = 2000;
+
+// Minimal ABI for confidential payment tokens (ERC-7984 style)
+const ConfidentialTokenABI = [
+  "function approve(address spender, bytes32 encryptedAmount, bytes inputProof)",
+];
+
+// Salts of anonymous bids, needed to withdraw their deposits, are kept in the browser under this prefix
+const ANONYMOUS_BIDS_KEY = "confidential-auction:anonymous-bids";
+
+interface AnonymousBid {
+  refundTo: string;
+  salt: string;
+}
+
+function anonymousBidsKey(contractAddress: string, auctionId: number) {
+  return `${ANONYMOUS_BIDS_KEY}:${contractAddress}:${auctionId}`;
+}
+
+function loadAnonymousBids(contractAddress: string, auctionId: number): AnonymousBid[] {
+  return JSON.parse(window.localStorage.getItem(anonymousBidsKey(contractAddress, auctionId)) ?? "[]");
+}
+
+// The auction keys an anonymous bid by the last 20 bytes of its commitment
+function anonymousCommitment({ refundTo, salt }: AnonymousBid) {
+  const commitment = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [refundTo, salt]));
+  return { commitment, pseudonym: ethers.getAddress(ethers.dataSlice(commitment, 12)) };
+}
+
+function saveAnonymousBids(contractAddress: string, auctionId: number, bids: AnonymousBid[]) {
+  window.localStorage.setItem(anonymousBidsKey(contractAddress, auctionId), JSON.stringify(bids));
+}
+
+// Metadata getters of escrowed ERC-721 and ERC-1155 lots
+const TokenMetadataABI = [
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function uri(uint256 id) view returns (string)",
+];
 
 export enum AuctionType {
   ENGLISH = 0,
   DUTCH = 1,
   SEALED_BID = 2,
   RESERVE = 3,
+  SEALED_BID_SECOND_PRICE = 4,
+  MULTI_UNIT_UNIFORM = 5,
+}
+
+export enum LotStandard {
+  NONE = 0,
+  ERC721 = 1,
+  ERC1155 = 2,
 }
 
 export enum AuctionStatus {
@@ -23,6 +78,7 @@ export enum AuctionStatus {
   EXTENDED = 2,
   ENDED = 3,
   CANCELLED = 4,
+  FAILED = 5, // reserve price not met
 }
 
 export interface AuctionInfo {
@@ -33,11 +89,92 @@ export interface AuctionInfo {
   creator: string;
   auctionType: AuctionType;
   status: AuctionStatus;
+  effectiveStatus: AuctionStatus; // status implied by block time, see getEffectiveStatus
   startTime: number;
   endTime: number;
   minimumBidIncrement: string; // in wei
   totalBids: number;
   hasReservePrice: boolean;
+  totalUnits: number; // zero unless multi-unit
+  extensionPolicy: ExtensionPolicy;
+  extensionCount: number; // late-bid extensions so far
+  paymentToken: string; // zero address for ETH deposits
+  allowlist?: Allowlist; // only for private auctions
+  isAnonymous: boolean; // bids are placed under commitments and listed by pseudonym
+  isPaused: boolean; // paused on its own or with the whole contract; the end time is frozen meanwhile
+  dutchPricing?: DutchPricing; // only for Dutch auctions
+  candleEnding?: CandleEnding; // only for auctions that close at a random time
+  lot?: LotInfo; // only for auctions of escrowed tokens
+  metadataURI?: string; // only for auctions with an off-chain listing
+  metadata?: AuctionMetadata; // undefined when the listing could not be loaded or did not match its hash
+  categoryId: number; // zero when uncategorized
+  category?: string; // name in the registry
+  tags: string[];
+}
+
+// Entry of the owner-curated category registry; IDs start at 1
+export interface Category {
+  id: number;
+  name: string;
+  retired: boolean; // takes no new auctions
+}
+
+// Off-chain listing an auction points to with `setMetadataURI`
+export interface AuctionMetadata {
+  name?: string;
+  description?: string;
+  image?: string; // already resolved for <img>
+  images: string[]; // further pictures, resolved as well
+  category?: string;
+  attributes: { trait_type: string; value: string | number }[];
+}
+
+// Loads the raw bytes behind a metadata URI; tests and apps with their own gateway or cache pass their own
+export type MetadataFetcher = (uri: string) => Promise<Uint8Array>;
+
+export const fetchMetadataOverHttp: MetadataFetcher = async (uri) => {
+  const response = await fetch(resolveTokenURI(uri));
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+export interface LotInfo {
+  standard: LotStandard;
+  token: string;
+  tokenId: string;
+  amount: string;
+  claimed: boolean;
+  metadata?: TokenMetadata; // undefined when the token URI could not be read
+}
+
+export interface TokenMetadata {
+  name?: string;
+  description?: string;
+  image?: string; // already resolved for <img>
+}
+
+export interface DutchPricing {
+  startPrice: string; // in wei
+  floorPrice: string; // in wei
+  priceDecayRate: string; // in wei per second
+  pausedDuration?: number; // seconds paused since the start, which the price does not decay over
+}
+
+export interface ExtensionPolicy {
+  threshold: number; // a bid this many seconds before the end extends the auction
+  extensionTime: number; // seconds added per extension, zero to never extend
+  maxExtensions: number;
+}
+
+export interface Allowlist {
+  merkleRoot: string; // zero hash when the creator adds bidders one by one
+}
+
+export interface CandleEnding {
+  window: number; // seconds before the end time in which the candle can go out
+  periods: number;
+  drawn: boolean;
+  closeTime?: number; // known once the results are revealed
 }
 
 export interface BidInfo {
@@ -50,10 +187,90 @@ export interface BidInfo {
 export interface AuctionResults {
   auctionId: number;
   highestBid: string; // in wei
-  reservePrice?: string; // in wei
+  reserveMet?: boolean; // the reserve price itself is never revealed
+  unitsSold?: number; // multi-unit auctions, where highestBid is the clearing price per unit
+  candleCloseTime?: number; // candle auctions, the close the winner was picked at
   winner?: string;
 }
 
+export interface AuctionSettlement {
+  auctionId: number;
+  settled: boolean;
+  winner: string;
+  winningBid: string; // in wei
+  deposit: string; // caller's remaining deposit, in wei
+  proceeds: string; // caller's withdrawable proceeds, in wei
+}
+
+// Candle auctions pick their close at random before results can be revealed or settled
+async function drawCandleEndIfNeeded(contract: ethers.Contract, auctionId: number) {
+  const candle = await contract.getCandleEnding(auctionId);
+  if (candle.periods === BigInt(0) || candle.drawn) return;
+
+  const tx = await contract.drawCandleEnd(auctionId);
+  await tx.wait();
+}
+
+// Read the lot's on-chain metadata URI and load the JSON it points to
+async function fetchTokenMetadata(
+  lot: LotInfo,
+  runner: ethers.ContractRunner
+): Promise<TokenMetadata | undefined> {
+  try {
+    const token = new ethers.Contract(lot.token, TokenMetadataABI, runner);
+    const uri: string = lot.standard === LotStandard.ERC721
+      ? await token.tokenURI(lot.tokenId)
+      : await token.uri(lot.tokenId);
+    if (!uri) return undefined;
+
+    const response = await fetch(resolveTokenURI(uri, lot.tokenId));
+    const json = await response.json();
+    return {
+      name: json.name,
+      description: json.description,
+      image: json.image ? resolveTokenURI(json.image, lot.tokenId) : undefined,
+    };
+  } catch (error) {
+    console.warn(`Failed to load metadata for ${lot.token} #${lot.tokenId}:`, error);
+    return undefined;
+  }
+}
+
+function isMetadataAttribute(value: unknown): value is AuctionMetadata["attributes"][number] {
+  if (typeof value !== "object" || value === null) return false;
+  const attribute = value as Record<string, unknown>;
+  return (
+    typeof attribute.trait_type === "string" &&
+    (typeof attribute.value === "string" || typeof attribute.value === "number")
+  );
+}
+
+// Load an auction's listing and check it against the hash the creator committed to on-chain
+export async function loadAuctionMetadata(
+  uri: string,
+  hash: string,
+  fetcher: MetadataFetcher = fetchMetadataOverHttp
+): Promise<AuctionMetadata> {
+  const document = await fetcher(uri);
+  if (ethers.keccak256(document) !== hash) {
+    throw new Error(`Metadata at ${uri} does not match its hash`);
+  }
+
+  const json = JSON.parse(ethers.toUtf8String(document));
+  return {
+    name: typeof json.name === "string" ? json.name : undefined,
+    description: typeof json.description === "string" ? json.description : undefined,
+    image: typeof json.image === "string" ? resolveTokenURI(json.image) : undefined,
+    images: Array.isArray(json.images)
+      ? json.images.filter((image: unknown) => typeof image === "string").map((image: string) => resolveTokenURI(image))
+      : [],
+    category: typeof json.category === "string" ? json.category : undefined,
+    attributes: Array.isArray(json.attributes)
+      ? json.attributes.filter(isMetadataAttribute)
+      : [],
+  };
+}
+
 function getAuctionSystemByChainId(chainId: number | undefined) {
   if (!chainId) {
     return { abi: ConfidentialAuctionABI.abi };
@@ -67,6 +284,7 @@ function getAuctionSystemByChainId(chainId: number | undefined) {
 
   return {
     address: entry.address as `0x${string}`,
+    queryAddress: entry.queryAddress as `0x${string}` | undefined,
     chainId: entry.chainId ?? chainId,
     chainName: entry.chainName,
     abi: ConfidentialAuctionABI.abi,
@@ -82,6 +300,7 @@ export function useAuctionSystem(parameters: {
   ethersReadonlyProvider: ethers.ContractRunner | undefined;
   sameChain: React.RefObject<(chainId: number | undefined) => boolean>;
   sameSigner: React.RefObject<(ethersSigner: ethers.JsonRpcSigner | undefined) => boolean>;
+  metadataFetcher?: MetadataFetcher;
 }) {
   const {
     instance,
@@ -91,15 +310,18 @@ export function useAuctionSystem(parameters: {
     ethersReadonlyProvider,
     sameChain,
     sameSigner,
+    metadataFetcher = fetchMetadataOverHttp,
   } = parameters;
 
   // State
   const [auctions, setAuctions] = useState<AuctionInfo[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [auctionResults, setAuctionResults] = useState<Map<number, AuctionResults>>(new Map());
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isCreating, setIsCreating] = useState<boolean>(false);
   const [isBidding, setIsBidding] = useState<boolean>(false);
   const [message, setMessage] = useState<string>("");
+  const [isPaused, setIsPaused] = useState<boolean>(false);
 
   // Refs
   const auctionSystemRef = useRef<any>(undefined);
@@ -117,6 +339,10 @@ export function useAuctionSystem(parameters: {
   // Stable references for contract address and ABI
   const contractAddress = useMemo(() => auctionSystem.address, [auctionSystem.address]);
   const contractABI = useMemo(() => auctionSystem.abi, [auctionSystem.abi]);
+  const queryAddress = useMemo(
+    () => ("queryAddress" in auctionSystem ? auctionSystem.queryAddress : undefined),
+    [auctionSystem]
+  );
 
   const isDeployed = useMemo(() => {
     return Boolean(contractAddress) && contractAddress !== ethers.ZeroAddress;
@@ -145,26 +371,93 @@ export function useAuctionSystem(parameters: {
         ethersReadonlyProvider
       );
 
-      const totalAuctions = await contract.getTotalAuctions();
+      const loadLot = async (lot: any): Promise<LotInfo> => {
+        const info: LotInfo = {
+          standard: Number(lot.standard),
+          token: lot.token,
+          tokenId: lot.tokenId.toString(),
+          amount: lot.amount.toString(),
+          claimed: lot.claimed,
+        };
+        return { ...info, metadata: await fetchTokenMetadata(info, ethersReadonlyProvider) };
+      };
+
+      const loadMetadata = async (uri: string, hash: string) => {
+        try {
+          return await loadAuctionMetadata(uri, hash, metadataFetcher);
+        } catch (error) {
+          console.warn(`Failed to load auction metadata from ${uri}:`, error);
+          return undefined;
+        }
+      };
+
+      const toAuctionInfo = async (summary: any, registry: Category[]): Promise<AuctionInfo> => ({
+        id: Number(summary.id),
+        title: summary.title,
+        description: summary.description,
+        itemImageUrl: summary.itemImageUrl,
+        creator: summary.creator,
+        auctionType: Number(summary.auctionType),
+        status: Number(summary.status), // Ensure it's a number
+        effectiveStatus: Number(summary.effectiveStatus),
+        startTime: Number(summary.startTime),
+        endTime: Number(summary.endTime),
+        minimumBidIncrement: summary.minimumBidIncrement.toString(),
+        totalBids: Number(summary.totalBids),
+        hasReservePrice: summary.hasReservePrice,
+        totalUnits: Number(summary.totalUnits),
+        extensionPolicy: {
+          threshold: Number(summary.extensionPolicy.threshold),
+          extensionTime: Number(summary.extensionPolicy.extensionTime),
+          maxExtensions: Number(summary.extensionPolicy.maxExtensions),
+        },
+        extensionCount: Number(summary.extensionCount),
+        paymentToken: summary.paymentToken,
+        allowlist: summary.isPrivate ? { merkleRoot: summary.bidderRoot } : undefined,
+        isAnonymous: summary.isAnonymous,
+        isPaused: summary.isPaused,
+        dutchPricing: Number(summary.auctionType) === AuctionType.DUTCH ? {
+          startPrice: summary.startPrice.toString(),
+          floorPrice: summary.floorPrice.toString(),
+          priceDecayRate: summary.priceDecayRate.toString(),
+          pausedDuration: Number(summary.pausedDuration),
+        } : undefined,
+        candleEnding: summary.candlePeriods > BigInt(0) ? {
+          window: Number(summary.candleWindow),
+          periods: Number(summary.candlePeriods),
+          drawn: summary.candleDrawn,
+          closeTime: summary.candleEndTime > BigInt(0) ? Number(summary.candleEndTime) : undefined,
+        } : undefined,
+        lot: Number(summary.lot.standard) === LotStandard.NONE ? undefined : await loadLot(summary.lot),
+        metadataURI: summary.metadataURI || undefined,
+        metadata: summary.metadataURI ? await loadMetadata(summary.metadataURI, summary.metadataHash) : undefined,
+        categoryId: Number(summary.categoryId),
+        category: registry[Number(summary.categoryId) - 1]?.name,
+        tags: summary.tags.map((tag: string) => ethers.decodeBytes32String(tag)),
+      });
+
+      if (!queryAddress) {
+        setMessage("AuctionQuery is not deployed on this network");
+        return;
+      }
+      const query = new ethers.Contract(queryAddress, AuctionQueryABI.abi, ethersReadonlyProvider);
+
+      setIsPaused(await contract.paused());
+      const registry: Category[] = (await query.getCategories()).map((category: any, index: number) => ({
+        id: index + 1,
+        name: category.name,
+        retired: category.retired,
+      }));
+      setCategories(registry);
       const auctionPromises: Promise<AuctionInfo>[] = [];
 
-      for (let i = 0; i < totalAuctions; i++) {
-        auctionPromises.push(
-          contract.getAuctionInfo(i).then((info: any) => ({
-            id: i,
-            title: info.title,
-            description: info.description,
-            itemImageUrl: info.itemImageUrl,
-            creator: info.creator,
-            auctionType: info.auctionType,
-            status: Number(info.status), // Ensure it's a number
-            startTime: Number(info.startTime),
-            endTime: Number(info.endTime),
-            minimumBidIncrement: info.minimumBidIncrement.toString(),
-            totalBids: Number(info.totalBids),
-            hasReservePrice: info.hasReservePrice,
-          }))
-        );
+      // A page of summaries per call, instead of a call per auction and getter
+      for (let offset = 0; ; offset += AUCTION_PAGE_SIZE) {
+        const page: any[] = await query.getAuctionsPage(offset, AUCTION_PAGE_SIZE);
+        for (const summary of page) {
+          auctionPromises.push(toAuctionInfo(summary, registry));
+        }
+        if (page.length < AUCTION_PAGE_SIZE) break;
       }
 
       const loadedAuctions = await Promise.all(auctionPromises);
@@ -177,7 +470,7 @@ export function useAuctionSystem(parameters: {
       isLoadingRef.current = false;
       setIsLoading(false);
     }
-  }, [contractAddress, contractABI, ethersReadonlyProvider]);
+  }, [contractAddress, contractABI, queryAddress, ethersReadonlyProvider, metadataFetcher]);
 
   // Create auction
   const createAuction = useCallback(async (
@@ -188,9 +481,16 @@ export function useAuctionSystem(parameters: {
     startTime: number,
     endTime: number,
     minimumBidIncrement: string, // in wei
-    extensionTime: number,
+    extensionPolicy: ExtensionPolicy,
     hasReservePrice: boolean,
-    reservePrice?: string // in wei
+    reservePrice?: string, // in wei
+    dutchPricing?: DutchPricing,
+    totalUnits?: number, // only for multi-unit auctions
+    candleEnding?: Pick<CandleEnding, "window" | "periods">,
+    allowlist?: { bidders: string[]; merkle: boolean }, // makes the auction private
+    anonymous?: boolean,
+    metadataURI?: string, // off-chain listing, hashed as it is served now
+    classification?: { categoryId: number; tags: string[] } // category ID zero leaves it uncategorized
   ) => {
     if (isCreatingRef.current || !ethersSigner || !contractAddress || !instance) return;
 
@@ -205,6 +505,15 @@ export function useAuctionSystem(parameters: {
         ethersSigner
       );
 
+      // Commit to the listing as it is served now, so a gateway cannot swap it later; reject it before
+      // creating anything if it is not JSON
+      let metadataDocument: Uint8Array | undefined;
+      if (metadataURI) {
+        setMessage("Loading listing metadata...");
+        metadataDocument = await metadataFetcher(metadataURI);
+        JSON.parse(ethers.toUtf8String(metadataDocument));
+      }
+
       let tx;
       if (hasReservePrice && reservePrice) {
         // Encrypt reserve price
@@ -225,7 +534,7 @@ export function useAuctionSystem(parameters: {
           startTime,
           endTime,
           minimumBidIncrement,
-          extensionTime,
+          extensionPolicy,
           hasReservePrice,
           encryptedInput.handles[0],
           encryptedInput.inputProof
@@ -244,7 +553,7 @@ export function useAuctionSystem(parameters: {
           startTime,
           endTime,
           minimumBidIncrement,
-          extensionTime,
+          extensionPolicy,
           false,
           dummyEncryptedInput.handles[0], // properly encrypted dummy value
           dummyEncryptedInput.inputProof // valid proof
@@ -253,6 +562,77 @@ export function useAuctionSystem(parameters: {
 
       setMessage(`Transaction submitted: ${tx.hash}`);
       const receipt = await tx.wait();
+
+      const createdAuctionId = () => {
+        const created = receipt.logs
+          .map((log: ethers.Log) => contract.interface.parseLog(log))
+          .find((log: ethers.LogDescription | null) => log?.name === "AuctionCreated");
+        if (!created) throw new Error("AuctionCreated event not found");
+        return created.args.auctionId;
+      };
+
+      if (auctionType === AuctionType.DUTCH && dutchPricing) {
+        setMessage("Setting Dutch price schedule...");
+        const pricingTx = await contract.setDutchPricing(
+          createdAuctionId(),
+          dutchPricing.startPrice,
+          dutchPricing.floorPrice,
+          dutchPricing.priceDecayRate
+        );
+        await pricingTx.wait();
+      }
+
+      if (auctionType === AuctionType.MULTI_UNIT_UNIFORM && totalUnits) {
+        setMessage("Setting unit supply...");
+        const unitsTx = await contract.setUnitSupply(createdAuctionId(), totalUnits);
+        await unitsTx.wait();
+      }
+
+      if (candleEnding) {
+        setMessage("Setting candle ending...");
+        const candleTx = await contract.setCandleEnding(createdAuctionId(), candleEnding.window, candleEnding.periods);
+        await candleTx.wait();
+      }
+
+      if (allowlist) {
+        // A Merkle root keeps the list off-chain; bidders register with their proof before bidding
+        setMessage("Setting bidder allowlist...");
+        const root = allowlist.merkle ? buildAllowlistTree(allowlist.bidders).root : ethers.ZeroHash;
+        const allowlistTx = await contract.setAllowlist(createdAuctionId(), root);
+        await allowlistTx.wait();
+        if (!allowlist.merkle && allowlist.bidders.length > 0) {
+          const biddersTx = await contract.addBidders(createdAuctionId(), allowlist.bidders);
+          await biddersTx.wait();
+        }
+      }
+
+      if (anonymous) {
+        setMessage("Enabling anonymous bidding...");
+        const anonymousTx = await contract.setAnonymousBidding(createdAuctionId());
+        await anonymousTx.wait();
+      }
+
+      if (metadataURI && metadataDocument) {
+        setMessage("Linking listing metadata...");
+        const metadataTx = await contract.setMetadataURI(
+          createdAuctionId(),
+          metadataURI,
+          ethers.keccak256(metadataDocument)
+        );
+        await metadataTx.wait();
+      }
+
+      const tags = normalizeTags(classification?.tags ?? []);
+      if (classification && (classification.categoryId > 0 || tags.length > 0)) {
+        setMessage("Setting category and tags...");
+        const categoryTx = await contract.setAuctionCategory(
+          createdAuctionId(),
+          classification.categoryId,
+          tags.map((tag) => ethers.encodeBytes32String(tag))
+        );
+        await categoryTx.wait();
+      }
+
       setMessage("Auction created successfully!");
 
       // Reload auctions
@@ -267,10 +647,88 @@ export function useAuctionSystem(parameters: {
       isCreatingRef.current = false;
       setIsCreating(false);
     }
-  }, [ethersSigner, contractAddress, contractABI, instance, loadAuctions]);
+  }, [ethersSigner, contractAddress, contractABI, instance, loadAuctions, metadataFetcher]);
+
+  // Edit an auction nobody bid in yet: its metadata, and its schedule while it has not started
+  const updateAuction = useCallback(async (
+    auctionId: number,
+    title: string,
+    description: string,
+    itemImageUrl: string,
+    schedule?: { startTime: number; endTime: number }
+  ) => {
+    if (isCreatingRef.current || !ethersSigner || !contractAddress) return;
+
+    isCreatingRef.current = true;
+    setIsCreating(true);
+
+    try {
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const auction = auctions.find(a => a.id === auctionId);
+      if (!auction || auction.title !== title || auction.description !== description ||
+        auction.itemImageUrl !== itemImageUrl) {
+        setMessage("Updating auction details...");
+        const tx = await contract.updateAuctionMetadata(auctionId, title, description, itemImageUrl);
+        setMessage(`Transaction submitted: ${tx.hash}`);
+        await tx.wait();
+      }
+
+      if (schedule) {
+        setMessage("Rescheduling auction...");
+        const tx = await contract.rescheduleAuction(auctionId, schedule.startTime, schedule.endTime);
+        setMessage(`Transaction submitted: ${tx.hash}`);
+        await tx.wait();
+      }
+
+      setMessage("Auction updated successfully!");
+
+      // Reload auctions
+      setTimeout(() => loadAuctions(), 1000);
+    } catch (error) {
+      console.error("Failed to update auction:", error);
+      setMessage("Failed to update auction");
+      throw error;
+    } finally {
+      isCreatingRef.current = false;
+      setIsCreating(false);
+    }
+  }, [ethersSigner, contractAddress, contractABI, auctions, loadAuctions]);
+
+  // Token auctions pull bids from an encrypted allowance instead of an ETH deposit.
+  // Returns whether the auction is paid in a token.
+  const approvePaymentToken = useCallback(async (auctionId: number, amount: string) => {
+    if (!instance || !ethersSigner || !contractAddress) return false;
+
+    const contract = new ethers.Contract(contractAddress, contractABI, ethersSigner);
+    const paymentToken: string = await contract.getPaymentToken(auctionId);
+    if (paymentToken === ethers.ZeroAddress) return false;
+
+    setMessage("Approving token allowance...");
+    const allowanceInput = instance.createEncryptedInput(
+      paymentToken,
+      ethersSigner.address
+    );
+    allowanceInput.add64(BigInt(amount));
+    const encryptedAllowance = await allowanceInput.encrypt();
+
+    const token = new ethers.Contract(paymentToken, ConfidentialTokenABI, ethersSigner);
+    const approveTx = await token.approve(
+      contractAddress,
+      encryptedAllowance.handles[0],
+      encryptedAllowance.inputProof
+    );
+    await approveTx.wait();
+    return true;
+  }, [instance, ethersSigner, contractAddress, contractABI]);
 
-  // Place bid
-  const placeBid = useCallback(async (auctionId: number, bidAmount: string) => {
+  // Place bid, locking depositAmount (in wei) as collateral. With `revise`, replaces the caller's existing bid:
+  // open auctions only take raises, sealed-bid auctions take any amount covered by the deposit
+  const placeBid = useCallback(async (auctionId: number, bidAmount: string, depositAmount: string, revise = false) => {
     if (isBiddingRef.current || !instance || !ethersSigner || !contractAddress) return;
 
     isBiddingRef.current = true;
@@ -278,6 +736,14 @@ export function useAuctionSystem(parameters: {
     setMessage("Preparing encrypted bid...");
 
     try {
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const paysInToken = await approvePaymentToken(auctionId, bidAmount);
+
       // Create encrypted input
       const input = instance.createEncryptedInput(
         contractAddress,
@@ -288,6 +754,107 @@ export function useAuctionSystem(parameters: {
       setMessage("Encrypting bid...");
       const encryptedInput = await input.encrypt();
 
+      setMessage(revise ? "Submitting revised bid..." : "Submitting bid...");
+      const tx = await (revise ? contract.reviseBid : contract.placeBid)(
+        auctionId,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        { value: BigInt(paysInToken ? 0 : depositAmount) }
+      );
+
+      setMessage(`Transaction submitted: ${tx.hash}`);
+      const receipt = await tx.wait();
+      setMessage(revise ? "Bid revised successfully!" : "Bid placed successfully!");
+
+      // Reload auctions to update bid counts
+      setTimeout(() => loadAuctions(), 1000);
+
+      return receipt;
+    } catch (error) {
+      console.error("Failed to place bid:", error);
+      setMessage("Failed to place bid");
+      throw error;
+    } finally {
+      isBiddingRef.current = false;
+      setIsBidding(false);
+    }
+  }, [instance, ethersSigner, contractAddress, contractABI, loadAuctions, approvePaymentToken]);
+
+  // Bid in an anonymous auction under a fresh commitment to the user's address and a random salt.
+  // The salt is kept in the browser: it is needed to withdraw the deposit, and is lost with the browser data.
+  const placeAnonymousBid = useCallback(async (auctionId: number, bidAmount: string, depositAmount: string) => {
+    if (isBiddingRef.current || !instance || !ethersSigner || !contractAddress) return;
+
+    isBiddingRef.current = true;
+    setIsBidding(true);
+    setMessage("Encrypting anonymous bid...");
+
+    try {
+      const input = instance.createEncryptedInput(
+        contractAddress,
+        ethersSigner.address
+      );
+      input.add64(BigInt(bidAmount));
+      const encryptedInput = await input.encrypt();
+
+      const bid: AnonymousBid = { refundTo: ethersSigner.address, salt: ethers.hexlify(ethers.randomBytes(32)) };
+      const { commitment } = anonymousCommitment(bid);
+      saveAnonymousBids(contractAddress, auctionId, [...loadAnonymousBids(contractAddress, auctionId), bid]);
+
+      setMessage("Submitting anonymous bid...");
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const tx = await contract.placeAnonymousBid(
+        auctionId,
+        commitment,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        { value: BigInt(depositAmount) }
+      );
+
+      setMessage(`Transaction submitted: ${tx.hash}`);
+      const receipt = await tx.wait();
+      setMessage("Anonymous bid placed successfully!");
+
+      setTimeout(() => loadAuctions(), 1000);
+
+      return receipt;
+    } catch (error) {
+      console.error("Failed to place anonymous bid:", error);
+      setMessage("Failed to place bid");
+      throw error;
+    } finally {
+      isBiddingRef.current = false;
+      setIsBidding(false);
+    }
+  }, [instance, ethersSigner, contractAddress, contractABI, loadAuctions]);
+
+  // Bid for a number of units of a multi-unit auction; price and quantity share one input proof
+  const placeUnitBid = useCallback(async (
+    auctionId: number,
+    unitPrice: string, // in wei
+    quantity: number,
+    depositAmount: string // in wei
+  ) => {
+    if (isBiddingRef.current || !instance || !ethersSigner || !contractAddress) return;
+
+    isBiddingRef.current = true;
+    setIsBidding(true);
+    setMessage("Encrypting unit price and quantity...");
+
+    try {
+      const input = instance.createEncryptedInput(
+        contractAddress,
+        ethersSigner.address
+      );
+      input.add64(BigInt(unitPrice));
+      input.add64(BigInt(quantity));
+      const encryptedInput = await input.encrypt();
+
       setMessage("Submitting bid...");
       const contract = new ethers.Contract(
         contractAddress,
@@ -295,10 +862,12 @@ export function useAuctionSystem(parameters: {
         ethersSigner
       );
 
-      const tx = await contract.placeBid(
+      const tx = await contract.placeUnitBid(
         auctionId,
         encryptedInput.handles[0],
-        encryptedInput.inputProof
+        encryptedInput.handles[1],
+        encryptedInput.inputProof,
+        { value: BigInt(depositAmount) }
       );
 
       setMessage(`Transaction submitted: ${tx.hash}`);
@@ -310,7 +879,7 @@ export function useAuctionSystem(parameters: {
 
       return receipt;
     } catch (error) {
-      console.error("Failed to place bid:", error);
+      console.error("Failed to place unit bid:", error);
       setMessage("Failed to place bid");
       throw error;
     } finally {
@@ -319,11 +888,90 @@ export function useAuctionSystem(parameters: {
     }
   }, [instance, ethersSigner, contractAddress, contractABI, loadAuctions]);
 
+  // Withdraw the caller's sealed bid; the deposit stays locked until settlement
+  const withdrawBid = useCallback(async (auctionId: number) => {
+    if (!ethersSigner || !contractAddress) return;
+
+    try {
+      setMessage("Withdrawing bid...");
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const tx = await contract.withdrawBid(auctionId);
+      setMessage(`Transaction submitted: ${tx.hash}`);
+
+      const receipt = await tx.wait();
+      setMessage("Bid withdrawn successfully!");
+
+      // Reload auctions
+      setTimeout(() => loadAuctions(), 1000);
+
+      return receipt;
+    } catch (error) {
+      console.error("Failed to withdraw bid:", error);
+      setMessage("Failed to withdraw bid");
+      throw error;
+    }
+  }, [ethersSigner, contractAddress, contractABI, loadAuctions]);
+
+  // Accept the current Dutch price up to an encrypted maximum
+  const acceptPrice = useCallback(async (auctionId: number, maxPrice: string, depositAmount: string) => {
+    if (isBiddingRef.current || !instance || !ethersSigner || !contractAddress) return;
+
+    isBiddingRef.current = true;
+    setIsBidding(true);
+    setMessage("Encrypting maximum price...");
+
+    try {
+      const input = instance.createEncryptedInput(
+        contractAddress,
+        ethersSigner.address
+      );
+      input.add64(BigInt(maxPrice));
+      const encryptedInput = await input.encrypt();
+
+      setMessage("Submitting acceptance...");
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const tx = await contract.acceptPrice(
+        auctionId,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        { value: BigInt(depositAmount) }
+      );
+
+      setMessage(`Transaction submitted: ${tx.hash}`);
+      const receipt = await tx.wait();
+      setMessage("Acceptance submitted! The auction ends once it is decrypted.");
+
+      setTimeout(() => loadAuctions(), 1000);
+
+      return receipt;
+    } catch (error) {
+      console.error("Failed to accept price:", error);
+      setMessage("Failed to accept price");
+      throw error;
+    } finally {
+      isBiddingRef.current = false;
+      setIsBidding(false);
+    }
+  }, [instance, ethersSigner, contractAddress, contractABI, loadAuctions]);
+
   // Set auto-bid
-  const setAutoBid = useCallback(async (auctionId: number, maxBidAmount: string) => {
+  const setAutoBid = useCallback(async (auctionId: number, maxBidAmount: string, depositAmount: string) => {
     if (!instance || !ethersSigner || !contractAddress) return;
 
     try {
+      // Token auctions escrow the maximum up front; ETH auctions lock the deposit
+      const paysInToken = await approvePaymentToken(auctionId, maxBidAmount);
+
       setMessage("Setting up auto-bid...");
       
       const input = instance.createEncryptedInput(
@@ -343,7 +991,8 @@ export function useAuctionSystem(parameters: {
       const tx = await contract.setAutoBid(
         auctionId,
         encryptedInput.handles[0],
-        encryptedInput.inputProof
+        encryptedInput.inputProof,
+        { value: BigInt(paysInToken ? 0 : depositAmount) }
       );
 
       setMessage(`Transaction submitted: ${tx.hash}`);
@@ -356,7 +1005,7 @@ export function useAuctionSystem(parameters: {
       setMessage("Failed to set auto-bid");
       throw error;
     }
-  }, [instance, ethersSigner, contractAddress, contractABI]);
+  }, [instance, ethersSigner, contractAddress, contractABI, approvePaymentToken]);
 
   // End auction
   const endAuction = useCallback(async (auctionId: number) => {
@@ -387,87 +1036,227 @@ export function useAuctionSystem(parameters: {
     }
   }, [ethersSigner, contractAddress, contractABI, loadAuctions]);
 
-  // Reveal auction results
-  const revealResults = useCallback(async (auctionId: number) => {
-    if (!instance || !ethersSigner || !contractAddress) return;
+  // Move an auction past its end time to ENDED (anyone can do this)
+  const finalizeAuction = useCallback(async (auctionId: number) => {
+    if (!ethersSigner || !contractAddress) return;
 
     try {
+      setMessage("Finalizing auction...");
       const contract = new ethers.Contract(
         contractAddress,
         contractABI,
         ethersSigner
       );
 
-      // Get auction info to check if user is creator
-      const auctionInfo = await contract.getAuctionInfo(auctionId);
-      const isCreator = auctionInfo.creator.toLowerCase() === ethersSigner.address.toLowerCase();
-      
-      if (!isCreator) {
-        setMessage("Making results public...");
-        const makePublicTx = await contract.revealResults(auctionId);
-        setMessage(`Transaction submitted: ${makePublicTx.hash}`);
-        await makePublicTx.wait();
-      }
+      const tx = await contract.finalize(auctionId);
+      setMessage(`Transaction submitted: ${tx.hash}`);
       
-      setMessage("Preparing decryption...");
+      const receipt = await tx.wait();
+      setMessage("Auction finalized successfully!");
 
-      // Get decryption signature
-      const sig = await FhevmDecryptionSignature.loadOrSign(
-        instance,
-        [contractAddress as `0x${string}`],
-        ethersSigner,
-        fhevmDecryptionSignatureStorage
-      );
+      // Reload auctions
+      setTimeout(() => loadAuctions(), 1000);
 
-      if (!sig) {
-        setMessage("Unable to build FHEVM decryption signature");
-        return;
-      }
+      return receipt;
+    } catch (error) {
+      console.error("Failed to finalize auction:", error);
+      setMessage("Failed to finalize auction");
+      throw error;
+    }
+  }, [ethersSigner, contractAddress, contractABI, loadAuctions]);
 
-      setMessage("Decrypting results...");
+  // Deliver the escrowed lot to the winner, or back to the creator
+  const claimLot = useCallback(async (auctionId: number) => {
+    if (!ethersSigner || !contractAddress) return;
 
-      // Get encrypted highest bid and decrypt
-      const encryptedHighestBid = await contract.getEncryptedHighestBid(auctionId);
+    try {
+      setMessage("Claiming item...");
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const tx = await contract.claimLot(auctionId);
+      setMessage(`Transaction submitted: ${tx.hash}`);
       
-      let highestBid = "0";
-      let reservePrice: string | undefined;
-
-      if (encryptedHighestBid !== ethers.ZeroHash) {
-        const result = await instance.userDecrypt(
-          [{ handle: encryptedHighestBid, contractAddress: contractAddress }],
-          sig.privateKey,
-          sig.publicKey,
-          sig.signature,
-          sig.contractAddresses,
-          sig.userAddress,
-          sig.startTimestamp,
-          sig.durationDays
-        );
-        highestBid = result[encryptedHighestBid].toString();
-      }
+      const receipt = await tx.wait();
+      setMessage("Item delivered successfully!");
+
+      // Reload auctions
+      setTimeout(() => loadAuctions(), 1000);
+
+      return receipt;
+    } catch (error) {
+      console.error("Failed to claim item:", error);
+      setMessage("Failed to claim item");
+      throw error;
+    }
+  }, [ethersSigner, contractAddress, contractABI, loadAuctions]);
+
+  // Reveal auction results
+  const revealResults = useCallback(async (auctionId: number) => {
+    if (!ethersSigner || !contractAddress) return;
+
+    try {
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
 
-      // Decrypt reserve price if exists
-      if (auctionInfo.hasReservePrice) {
-        // This would require additional contract method to get encrypted reserve price
-        // For now, we'll skip this
+      let revealed = await contract.getRevealedResults(auctionId);
+
+      if (!revealed.revealed) {
+        // Only the creator or an admin (the owner included) can ask the oracle to publish the results
+        const auctionInfo = await contract.getAuctionInfo(auctionId);
+        const isAdmin: boolean = await contract.hasRole(await contract.ADMIN_ROLE(), ethersSigner.address);
+        if (auctionInfo.creator.toLowerCase() !== ethersSigner.address.toLowerCase() && !isAdmin) {
+          setMessage("Results have not been revealed yet");
+          return;
+        }
+
+        setMessage("Requesting results from the decryption oracle...");
+        await drawCandleEndIfNeeded(contract, auctionId);
+        const tx = await contract.revealResults(auctionId);
+        setMessage(`Transaction submitted: ${tx.hash}`);
+        await tx.wait();
+
+        setMessage("Waiting for the decryption oracle...");
+        for (let attempt = 0; attempt < REVEAL_POLL_ATTEMPTS && !revealed.revealed; attempt++) {
+          await new Promise((resolve) => setTimeout(resolve, REVEAL_POLL_INTERVAL_MS));
+          revealed = await contract.getRevealedResults(auctionId);
+        }
+
+        if (!revealed.revealed) {
+          setMessage("The oracle has not answered yet, please try again shortly");
+          return;
+        }
       }
 
+      // For second-price sealed bids the winning bid is the runner-up bid the winner pays
+      const candle = await contract.getCandleEnding(auctionId);
       const auctionResults: AuctionResults = {
         auctionId,
-        highestBid,
-        reservePrice,
+        highestBid: revealed.winningBid.toString(),
+        reserveMet: revealed.reserveMet,
+        winner: revealed.winner !== ethers.ZeroAddress ? revealed.winner : undefined,
+        unitsSold: Number(revealed.unitsSold),
+        candleCloseTime: candle.periods > BigInt(0) ? Number(candle.closeTime) : undefined,
       };
 
       setAuctionResults(prev => new Map(prev.set(auctionId, auctionResults)));
-      setMessage("Results decrypted successfully!");
+      setMessage("Results revealed successfully!");
 
       return auctionResults;
     } catch (error) {
-      console.error("Failed to decrypt results:", error);
-      setMessage("Failed to decrypt results: " + (error as Error).message);
+      console.error("Failed to reveal results:", error);
+      setMessage("Failed to reveal results: " + (error as Error).message);
       throw error;
     }
-  }, [instance, ethersSigner, contractAddress, contractABI, fhevmDecryptionSignatureStorage]);
+  }, [ethersSigner, contractAddress, contractABI]);
+
+  // Load settlement state for the connected account
+  const getSettlement = useCallback(async (auctionId: number) => {
+    if (!ethersSigner || !contractAddress || !ethersReadonlyProvider) return;
+
+    try {
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersReadonlyProvider
+      );
+
+      const [settlement, deposit, proceeds] = await Promise.all([
+        contract.getSettlement(auctionId),
+        contract.getDeposit(auctionId, ethersSigner.address),
+        contract.pendingWithdrawals(ethersSigner.address),
+      ]);
+
+      const result: AuctionSettlement = {
+        auctionId,
+        settled: settlement.settled,
+        winner: settlement.winner,
+        winningBid: settlement.winningBid.toString(),
+        deposit: deposit.toString(),
+        proceeds: proceeds.toString(),
+      };
+
+      return result;
+    } catch (error) {
+      console.error("Failed to load settlement:", error);
+      return undefined;
+    }
+  }, [ethersSigner, contractAddress, contractABI, ethersReadonlyProvider]);
+
+  // Request settlement through the decryption oracle
+  const settleAuction = useCallback(async (auctionId: number) => {
+    if (!ethersSigner || !contractAddress) return;
+
+    try {
+      setMessage("Requesting settlement...");
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      await drawCandleEndIfNeeded(contract, auctionId);
+      const tx = await contract.settle(auctionId);
+      setMessage(`Transaction submitted: ${tx.hash}`);
+
+      const receipt = await tx.wait();
+      setMessage("Settlement requested, waiting for the decryption oracle...");
+
+      return receipt;
+    } catch (error) {
+      console.error("Failed to settle auction:", error);
+      setMessage("Failed to settle auction");
+      throw error;
+    }
+  }, [ethersSigner, contractAddress, contractABI]);
+
+  // Withdraw deposit for an auction, or proceeds when no auction is given
+  const withdraw = useCallback(async (auctionId?: number) => {
+    if (!ethersSigner || !contractAddress) return;
+
+    try {
+      setMessage("Withdrawing funds...");
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      if (auctionId !== undefined && await contract.isAnonymousAuction(auctionId)) {
+        // Anonymous deposits are withdrawn commitment by commitment
+        let receipt;
+        for (const bid of loadAnonymousBids(contractAddress, auctionId)) {
+          if (await contract.getDeposit(auctionId, anonymousCommitment(bid).pseudonym) === BigInt(0)) continue;
+          const tx = await contract.withdrawAnonymousDeposit(auctionId, bid.refundTo, bid.salt);
+          setMessage(`Transaction submitted: ${tx.hash}`);
+          receipt = await tx.wait();
+        }
+        saveAnonymousBids(contractAddress, auctionId, []);
+        setMessage(receipt ? "Funds withdrawn successfully!" : "No anonymous bids found in this browser");
+        return receipt;
+      }
+
+      const tx = auctionId === undefined
+        ? await contract.withdrawProceeds()
+        : await contract.withdraw(auctionId);
+      setMessage(`Transaction submitted: ${tx.hash}`);
+
+      const receipt = await tx.wait();
+      setMessage("Funds withdrawn successfully!");
+
+      return receipt;
+    } catch (error) {
+      console.error("Failed to withdraw:", error);
+      setMessage("Failed to withdraw");
+      throw error;
+    }
+  }, [ethersSigner, contractAddress, contractABI]);
 
   // Check if user has bid
   const hasBid = useCallback(async (auctionId: number, userAddress: string) => {
@@ -487,21 +1276,165 @@ export function useAuctionSystem(parameters: {
     }
   }, [canInteract, contractAddress, contractABI, ethersReadonlyProvider]);
 
+  // Whether the user may bid: not the creator, and on the allowlist of a private auction
+  const canBidInAuction = useCallback(async (auctionId: number, userAddress: string) => {
+    if (!canInteract) return false;
+
+    try {
+      const contract = new ethers.Contract(
+        contractAddress!,
+        contractABI,
+        ethersReadonlyProvider
+      );
+
+      return await contract.canBidInAuction(auctionId, userAddress);
+    } catch (error) {
+      console.error("Failed to check allowlist:", error);
+      return false;
+    }
+  }, [canInteract, contractAddress, contractABI, ethersReadonlyProvider]);
+
+  // Prove membership of a private auction's Merkle allowlist, given the addresses its root was built from
+  const registerBidder = useCallback(async (auctionId: number, bidders: string[]) => {
+    if (!ethersSigner || !contractAddress) return;
+
+    try {
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const { root, proof } = buildAllowlistTree(bidders, ethersSigner.address);
+      const allowlist = await contract.getAllowlist(auctionId);
+      if (root !== allowlist.merkleRoot) {
+        throw new Error("This list does not match the auction's allowlist");
+      }
+
+      setMessage("Registering on the allowlist...");
+      const tx = await contract.registerBidder(auctionId, proof);
+      setMessage(`Transaction submitted: ${tx.hash}`);
+
+      const receipt = await tx.wait();
+      setMessage("Registered! You can now bid.");
+      return receipt;
+    } catch (error) {
+      console.error("Failed to register bidder:", error);
+      setMessage("Failed to register on the allowlist");
+      throw error;
+    }
+  }, [ethersSigner, contractAddress, contractABI]);
+
+  // Decrypt whether the user's latest bid passed the deposit and increment checks
+  const getLastBidAccepted = useCallback(async (auctionId: number): Promise<boolean | undefined> => {
+    if (!instance || !ethersSigner || !contractAddress) return undefined;
+
+    try {
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      const handle: string = await contract.getLastBidAccepted(auctionId, ethersSigner.address);
+      if (handle === ethers.ZeroHash) return undefined;
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        instance,
+        [contractAddress as `0x${string}`],
+        ethersSigner,
+        fhevmDecryptionSignatureStorage
+      );
+
+      if (!sig) {
+        setMessage("Unable to build FHEVM decryption signature");
+        return undefined;
+      }
+
+      const result = await instance.userDecrypt(
+        [{ handle, contractAddress }],
+        sig.privateKey,
+        sig.publicKey,
+        sig.signature,
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
+      );
+      return Boolean(result[handle]);
+    } catch (error) {
+      console.error("Failed to decrypt bid status:", error);
+      setMessage("Failed to decrypt bid status");
+      return undefined;
+    }
+  }, [instance, ethersSigner, contractAddress, contractABI, fhevmDecryptionSignatureStorage]);
+
+  // Compute and decrypt the units the caller won in a multi-unit auction; only they can decrypt them
+  const getUnitAllocation = useCallback(async (auctionId: number): Promise<number | undefined> => {
+    if (!instance || !ethersSigner || !contractAddress) return undefined;
+
+    try {
+      const contract = new ethers.Contract(
+        contractAddress,
+        contractABI,
+        ethersSigner
+      );
+
+      let unitBid = await contract.getUnitBid(auctionId, ethersSigner.address);
+      if (unitBid.allocation === ethers.ZeroHash) {
+        setMessage("Computing your allocation...");
+        const tx = await contract.computeAllocation(auctionId);
+        await tx.wait();
+        unitBid = await contract.getUnitBid(auctionId, ethersSigner.address);
+      }
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        instance,
+        [contractAddress as `0x${string}`],
+        ethersSigner,
+        fhevmDecryptionSignatureStorage
+      );
+
+      if (!sig) {
+        setMessage("Unable to build FHEVM decryption signature");
+        return undefined;
+      }
+
+      const handle: string = unitBid.allocation;
+      const result = await instance.userDecrypt(
+        [{ handle, contractAddress }],
+        sig.privateKey,
+        sig.publicKey,
+        sig.signature,
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
+      );
+      setMessage("Allocation decrypted");
+      return Number(result[handle]);
+    } catch (error) {
+      console.error("Failed to decrypt allocation:", error);
+      setMessage("Failed to decrypt allocation");
+      return undefined;
+    }
+  }, [instance, ethersSigner, contractAddress, contractABI, fhevmDecryptionSignatureStorage]);
+
   // Get auction status
   const getAuctionStatusText = useCallback((auction: AuctionInfo): string => {
-    const now = Math.floor(Date.now() / 1000);
-    
-    switch (auction.status) {
+    switch (auction.effectiveStatus) {
       case AuctionStatus.PENDING:
-        return now < auction.startTime ? "Upcoming" : "Pending";
+        return "Upcoming";
       case AuctionStatus.ACTIVE:
-        return now > auction.endTime ? "Ended" : "Active";
+        return "Active";
       case AuctionStatus.EXTENDED:
         return "Extended";
       case AuctionStatus.ENDED:
         return "Ended";
       case AuctionStatus.CANCELLED:
         return "Cancelled";
+      case AuctionStatus.FAILED:
+        return "Reserve Not Met";
       default:
         return "Unknown";
     }
@@ -522,7 +1455,9 @@ export function useAuctionSystem(parameters: {
 
     // State
     auctions,
+    categories,
     auctionResults,
+    isPaused,
     isLoading,
     isCreating,
     isBidding,
@@ -531,11 +1466,25 @@ export function useAuctionSystem(parameters: {
     // Actions
     refreshAuctions: loadAuctions,
     createAuction,
+    updateAuction,
     placeBid,
+    placeUnitBid,
+    placeAnonymousBid,
+    withdrawBid,
+    acceptPrice,
     setAutoBid,
     endAuction,
+    finalizeAuction,
+    claimLot,
     revealResults,
+    getSettlement,
+    settleAuction,
+    withdraw,
     hasBid,
+    canBidInAuction,
+    registerBidder,
+    getLastBidAccepted,
+    getUnitAllocation,
     getAuctionStatusText,
   };
 }
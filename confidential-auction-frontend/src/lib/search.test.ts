@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { AuctionInfo, AuctionStatus, AuctionType } from "@/hooks/useAuctionSystem";
+import { parseSearchParams, toSearchParams } from "@/hooks/useAuctionSearchParams";
+import {
+  AuctionSearchState,
+  buildSearchIndex,
+  DEFAULT_SEARCH_STATE,
+  editDistance,
+  scoreEntry,
+  searchAuctions,
+  tokenize,
+  tokenSimilarity,
+} from "@/lib/search";
+
+function makeAuction(auction: Partial<AuctionInfo> & { id: number }): AuctionInfo {
+  return {
+    title: "",
+    description: "",
+    itemImageUrl: "",
+    creator: ethers.ZeroAddress,
+    auctionType: AuctionType.ENGLISH,
+    status: AuctionStatus.ACTIVE,
+    effectiveStatus: AuctionStatus.ACTIVE,
+    startTime: 0,
+    endTime: 1000,
+    minimumBidIncrement: "1",
+    totalBids: 0,
+    hasReservePrice: false,
+    totalUnits: 0,
+    extensionPolicy: { threshold: 0, extensionTime: 0, maxExtensions: 0 },
+    extensionCount: 0,
+    paymentToken: ethers.ZeroAddress,
+    isAnonymous: false,
+    isPaused: false,
+    categoryId: 0,
+    tags: [],
+    ...auction,
+  };
+}
+
+function search(auctions: AuctionInfo[], state: Partial<AuctionSearchState>) {
+  return searchAuctions(buildSearchIndex(auctions), { ...DEFAULT_SEARCH_STATE, ...state });
+}
+
+const ids = (auctions: AuctionInfo[]) => auctions.map((auction) => auction.id);
+
+describe("tokenize", () => {
+  it("splits lowercase words and strips accents", () => {
+    expect(tokenize("Montre Élégante — 1962!")).toEqual(["montre", "elegante", "1962"]);
+    expect(tokenize("  ")).toEqual([]);
+  });
+});
+
+describe("editDistance", () => {
+  it("counts substitutions, insertions and adjacent transpositions", () => {
+    expect(editDistance("watch", "watch", 2)).toBe(0);
+    expect(editDistance("watch", "wacth", 2)).toBe(1);
+    expect(editDistance("wtch", "watch", 2)).toBe(1);
+    expect(editDistance("kitten", "sitting", 3)).toBe(3);
+  });
+
+  it("gives up past the maximum", () => {
+    expect(editDistance("kitten", "sitting", 2)).toBe(3);
+    expect(editDistance("abc", "abcdef", 1)).toBe(2);
+  });
+});
+
+describe("tokenSimilarity", () => {
+  it("ranks exact matches over prefixes over typos", () => {
+    expect(tokenSimilarity("watch", "watch")).toBe(1);
+    expect(tokenSimilarity("wat", "watch")).toBe(0.75);
+    expect(tokenSimilarity("wacth", "watch")).toBe(0.5);
+  });
+
+  it("allows one typo from four characters and two from eight", () => {
+    expect(tokenSimilarity("car", "cat")).toBe(0);
+    expect(tokenSimilarity("wtch", "watch")).toBe(0.5);
+    expect(tokenSimilarity("wxtcx", "watch")).toBe(0);
+    expect(tokenSimilarity("chronograf", "chronograph")).toBe(0.25);
+    expect(tokenSimilarity("chrnograf", "chronograph")).toBe(0);
+  });
+
+  it("forgives typos in a word still being typed", () => {
+    expect(tokenSimilarity("chronogrph", "chronographs")).toBe(0.25);
+  });
+});
+
+describe("scoreEntry", () => {
+  const [entry] = buildSearchIndex([
+    makeAuction({ id: 0, title: "Vintage Watch", tags: ["swiss"], category: "Watches", description: "Steel case" }),
+  ]).entries;
+
+  it("takes each query token's best weighted match", () => {
+    expect(scoreEntry(entry, ["watch"])).toBe(4); // title, not the category prefix
+    expect(scoreEntry(entry, ["swiss", "steel"])).toBe(3 + 1);
+    expect(scoreEntry(entry, ["watc"])).toBe(4 * 0.75);
+  });
+
+  it("requires every query token to match", () => {
+    expect(scoreEntry(entry, ["watch", "gold"])).toBe(0);
+  });
+});
+
+describe("searchAuctions", () => {
+  const auctions = [
+    makeAuction({
+      id: 0,
+      title: "Vintage Watch",
+      category: "Watches",
+      tags: ["vintage", "swiss"],
+      endTime: 1000,
+      totalBids: 3,
+    }),
+    makeAuction({
+      id: 1,
+      title: "Pocket clock",
+      description: "An antique watch",
+      category: "Watches",
+      tags: ["vintage"],
+      auctionType: AuctionType.DUTCH,
+      effectiveStatus: AuctionStatus.PENDING,
+      endTime: 3000,
+    }),
+    makeAuction({
+      id: 2,
+      title: "Watchmaker tools",
+      category: "Art",
+      tags: ["vintage", "swiss"],
+      effectiveStatus: AuctionStatus.ENDED,
+      endTime: 500,
+      totalBids: 5,
+    }),
+    makeAuction({
+      id: 3,
+      title: "Sealed painting",
+      auctionType: AuctionType.SEALED_BID,
+      endTime: 2000,
+      totalBids: 1,
+    }),
+    makeAuction({
+      id: 4,
+      title: "Modern print",
+      category: "Art",
+      tags: ["modern"],
+      effectiveStatus: AuctionStatus.CANCELLED,
+      endTime: 800,
+    }),
+  ];
+
+  it("ranks title matches over prefixes over description matches", () => {
+    expect(ids(search(auctions, { query: "watch" }).auctions)).toEqual([0, 2, 1]);
+  });
+
+  it("finds auctions despite a typo", () => {
+    // The title match outweighs the tag matches, which tie and fall back to the newest first
+    expect(ids(search(auctions, { query: "vintaeg" }).auctions)).toEqual([0, 2, 1]);
+    expect(ids(search(auctions, { query: "vxntaeg" }).auctions)).toEqual([]);
+  });
+
+  it("sorts by relevance, ending, bids or newest", () => {
+    expect(ids(search(auctions, {}).auctions)).toEqual([4, 3, 2, 1, 0]);
+    // Running and upcoming auctions by soonest end, then finished ones by most recent end
+    expect(ids(search(auctions, { sort: "ending" }).auctions)).toEqual([0, 3, 1, 4, 2]);
+    expect(ids(search(auctions, { sort: "bids" }).auctions)).toEqual([2, 0, 3, 1, 4]);
+    expect(ids(search(auctions, { sort: "newest" }).auctions)).toEqual([4, 3, 2, 1, 0]);
+  });
+
+  it("filters by status, category, tags and type", () => {
+    expect(ids(search(auctions, { status: "ended" }).auctions)).toEqual([4, 2]);
+    expect(ids(search(auctions, { status: "upcoming" }).auctions)).toEqual([1]);
+    expect(ids(search(auctions, { category: "Art" }).auctions)).toEqual([4, 2]);
+    expect(ids(search(auctions, { tags: ["vintage", "swiss"] }).auctions)).toEqual([2, 0]);
+    expect(ids(search(auctions, { auctionType: AuctionType.DUTCH }).auctions)).toEqual([1]);
+  });
+
+  it("counts each facet with the other filters applied", () => {
+    const { auctions: results, facets } = search(auctions, { category: "Watches" });
+    expect(ids(results)).toEqual([1, 0]);
+    expect(facets.categories).toEqual([
+      { value: "Watches", count: 2 },
+      { value: "Art", count: 2 },
+    ]);
+    expect(facets.tags).toEqual([
+      { value: "vintage", count: 2 },
+      { value: "swiss", count: 1 },
+    ]);
+    expect(facets.auctionTypes).toEqual([
+      { value: AuctionType.ENGLISH, count: 1 },
+      { value: AuctionType.DUTCH, count: 1 },
+    ]);
+    expect(facets.statuses).toEqual([
+      { value: "active", count: 1 },
+      { value: "upcoming", count: 1 },
+    ]);
+  });
+
+  it("narrows tag counts by the selected tags", () => {
+    const { facets } = search(auctions, { tags: ["swiss"] });
+    expect(facets.tags).toEqual([
+      { value: "vintage", count: 2 },
+      { value: "swiss", count: 2 },
+    ]);
+    expect(facets.categories).toEqual([
+      { value: "Watches", count: 1 },
+      { value: "Art", count: 1 },
+    ]);
+  });
+});
+
+describe("search params", () => {
+  it("leaves the default state out of the URL", () => {
+    expect(toSearchParams(DEFAULT_SEARCH_STATE)).toBe("");
+    expect(parseSearchParams("")).toEqual(DEFAULT_SEARCH_STATE);
+  });
+
+  it("round-trips every field", () => {
+    const state: AuctionSearchState = {
+      query: "gold watch",
+      status: "active",
+      category: "Fine Art",
+      tags: ["vintage", "swiss"],
+      auctionType: AuctionType.DUTCH,
+      sort: "ending",
+    };
+    expect(parseSearchParams(toSearchParams(state))).toEqual(state);
+
+    const english = { ...DEFAULT_SEARCH_STATE, auctionType: AuctionType.ENGLISH };
+    expect(toSearchParams(english)).toBe("?type=0");
+    expect(parseSearchParams("?type=0")).toEqual(english);
+  });
+
+  it("treats an empty or invalid type as no type filter", () => {
+    for (const type of ["", "1.0", "0x1", " 1", "-1", "6", "abc", "DUTCH"]) {
+      expect(parseSearchParams(`?type=${encodeURIComponent(type)}`).auctionType).toBeUndefined();
+    }
+  });
+
+  it("falls back to the defaults for unknown values", () => {
+    expect(parseSearchParams("?status=closed&sort=price&tags=a,,b")).toEqual({
+      ...DEFAULT_SEARCH_STATE,
+      tags: ["a", "b"],
+    });
+  });
+});
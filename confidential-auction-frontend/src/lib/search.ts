@@ -0,0 +1,226 @@
+import { AuctionInfo, AuctionStatus, AuctionType } from "@/hooks/useAuctionSystem";
+
+export type StatusFilter = "all" | "active" | "upcoming" | "ended";
+export type AuctionSort = "relevance" | "ending" | "bids" | "newest";
+
+// Everything the auction hall filters and sorts by; mirrored in the URL, see useAuctionSearchParams
+export interface AuctionSearchState {
+  query: string;
+  status: StatusFilter;
+  category?: string;
+  tags: string[]; // an auction must carry all of them
+  auctionType?: AuctionType;
+  sort: AuctionSort;
+}
+
+export const DEFAULT_SEARCH_STATE: AuctionSearchState = {
+  query: "",
+  status: "all",
+  tags: [],
+  sort: "relevance",
+};
+
+export interface FacetCount<T> {
+  value: T;
+  count: number;
+}
+
+// Counts per facet value, each computed with every other active filter applied. Tags narrow each other
+// down, so their counts take the selected tags into account as well.
+export interface AuctionFacets {
+  categories: FacetCount<string>[];
+  tags: FacetCount<string>[];
+  auctionTypes: FacetCount<AuctionType>[];
+  statuses: FacetCount<Exclude<StatusFilter, "all">>[];
+}
+
+export interface AuctionSearchResult {
+  auctions: AuctionInfo[];
+  facets: AuctionFacets;
+}
+
+interface IndexedField {
+  tokens: string[];
+  weight: number;
+}
+
+export interface IndexedAuction {
+  auction: AuctionInfo;
+  fields: IndexedField[];
+}
+
+export interface AuctionSearchIndex {
+  entries: IndexedAuction[];
+}
+
+// Matches in the title count most, then tags and category, then the rest of the listing
+const FIELD_WEIGHTS = {
+  title: 4,
+  tags: 3,
+  category: 2,
+  description: 1,
+  attributes: 1,
+  creator: 1,
+};
+
+// Lowercase words without accents, so "Montre Élégante" finds "elegante"
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+}
+
+// Tags are trimmed, lowercased and deduplicated before they go on-chain, so they facet together
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+}
+
+export function getStatusFilter(auction: AuctionInfo): Exclude<StatusFilter, "all"> {
+  const status = auction.effectiveStatus;
+  if (status === AuctionStatus.PENDING) return "upcoming";
+  if (status === AuctionStatus.ACTIVE || status === AuctionStatus.EXTENDED) return "active";
+  return "ended"; // ENDED, CANCELLED or FAILED
+}
+
+export function buildSearchIndex(auctions: AuctionInfo[]): AuctionSearchIndex {
+  return {
+    entries: auctions.map((auction) => {
+      const listing = auction.metadata;
+      const field = (text: string, weight: number) => ({ tokens: tokenize(text), weight });
+      return {
+        auction,
+        fields: [
+          field(`${auction.title} ${listing?.name ?? ""}`, FIELD_WEIGHTS.title),
+          field(auction.tags.join(" "), FIELD_WEIGHTS.tags),
+          field(`${auction.category ?? ""} ${listing?.category ?? ""}`, FIELD_WEIGHTS.category),
+          field(`${auction.description} ${listing?.description ?? ""}`, FIELD_WEIGHTS.description),
+          field(
+            (listing?.attributes ?? []).map((attribute) => `${attribute.trait_type} ${attribute.value}`).join(" "),
+            FIELD_WEIGHTS.attributes
+          ),
+          field(auction.creator, FIELD_WEIGHTS.creator),
+        ],
+      };
+    }),
+  };
+}
+
+// Edit distance with adjacent transpositions, giving up once it exceeds `max`
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1);
+      }
+      nextRow.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = nextRow;
+  }
+  return row[b.length];
+}
+
+// How well a query token matches a word: exactly, as a prefix being typed, or with a typo or two
+export function tokenSimilarity(queryToken: string, token: string): number {
+  if (token === queryToken) return 1;
+  if (token.startsWith(queryToken)) return 0.75;
+
+  const allowedTypos = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0;
+  if (allowedTypos === 0) return 0;
+  const distance = editDistance(queryToken, token.slice(0, queryToken.length + allowedTypos), allowedTypos);
+  return distance <= allowedTypos ? 0.5 / distance : 0;
+}
+
+// Every query token has to match somewhere; the score adds up each token's best weighted match
+export function scoreEntry(entry: IndexedAuction, queryTokens: string[]): number {
+  let score = 0;
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    for (const { tokens, weight } of entry.fields) {
+      for (const token of tokens) {
+        best = Math.max(best, weight * tokenSimilarity(queryToken, token));
+      }
+    }
+    if (best === 0) return 0;
+    score += best;
+  }
+  return score;
+}
+
+function countBy<T>(values: T[]): FacetCount<T>[] {
+  const counts = new Map<T, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Soonest end first among running and upcoming auctions; finished ones follow, most recent first
+function compareEndTime(a: AuctionInfo, b: AuctionInfo): number {
+  const aEnded = getStatusFilter(a) === "ended";
+  const bEnded = getStatusFilter(b) === "ended";
+  if (aEnded !== bEnded) return aEnded ? 1 : -1;
+  return aEnded ? b.endTime - a.endTime : a.endTime - b.endTime;
+}
+
+export function searchAuctions(index: AuctionSearchIndex, state: AuctionSearchState): AuctionSearchResult {
+  const queryTokens = tokenize(state.query);
+  const scored = index.entries
+    .map((entry) => ({
+      auction: entry.auction,
+      score: queryTokens.length > 0 ? scoreEntry(entry, queryTokens) : 1,
+    }))
+    .filter(({ score }) => score > 0);
+
+  const filters = {
+    status: (auction: AuctionInfo) => state.status === "all" || getStatusFilter(auction) === state.status,
+    category: (auction: AuctionInfo) => state.category === undefined || auction.category === state.category,
+    tags: (auction: AuctionInfo) => state.tags.every((tag) => auction.tags.includes(tag)),
+    auctionType: (auction: AuctionInfo) => state.auctionType === undefined || auction.auctionType === state.auctionType,
+  };
+  type FilterName = keyof typeof filters;
+  const matchesAllBut = (auction: AuctionInfo, skipped?: FilterName) =>
+    (Object.keys(filters) as FilterName[]).every((name) => name === skipped || filters[name](auction));
+  const facetValues = (skipped?: FilterName) =>
+    scored.map(({ auction }) => auction).filter((auction) => matchesAllBut(auction, skipped));
+
+  const results = scored.filter(({ auction }) => matchesAllBut(auction));
+  results.sort((a, b) => {
+    switch (state.sort) {
+      case "ending":
+        return compareEndTime(a.auction, b.auction);
+      case "bids":
+        return b.auction.totalBids - a.auction.totalBids;
+      case "newest":
+        return b.auction.id - a.auction.id; // IDs are assigned in creation order
+      default:
+        return b.score - a.score || b.auction.id - a.auction.id;
+    }
+  });
+
+  return {
+    auctions: results.map(({ auction }) => auction),
+    facets: {
+      categories: countBy(facetValues("category").flatMap((auction) => (auction.category ? [auction.category] : []))),
+      tags: countBy(facetValues().flatMap((auction) => auction.tags)),
+      auctionTypes: countBy(facetValues("auctionType").map((auction) => auction.auctionType)),
+      statuses: countBy(facetValues("status").map(getStatusFilter)),
+    },
+  };
+}
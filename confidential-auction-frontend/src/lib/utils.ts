@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { ethers } from "ethers"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -24,6 +25,9 @@ export function parseEther(ether: string): string {
   }
 }
 
+// Bids are encrypted as 64-bit wei amounts, so the contract caps a bidder's total ETH deposit per auction here
+export const MAX_DEPOSIT_WEI = BigInt("18446744073709551615");
+
 export function formatTimeRemaining(endTime: number): string {
   const now = Math.floor(Date.now() / 1000);
   const remaining = endTime - now;
@@ -51,7 +55,7 @@ export function formatAddress(address: string): string {
 }
 
 export function getAuctionTypeText(type: number): string {
-  const types = ['English', 'Dutch', 'Sealed Bid', 'Reserve'];
+  const types = ['English', 'Dutch', 'Sealed Bid', 'Reserve', 'Sealed Bid (2nd Price)', 'Multi-Unit (Uniform)'];
   return types[type] || 'Unknown';
 }
 
@@ -74,3 +78,61 @@ export function getStatusColor(status: string): string {
 }
 
 
+
+// Mirrors the contract's linear Dutch price schedule
+export function getDutchPrice(
+  pricing: { startPrice: string; floorPrice: string; priceDecayRate: string; pausedDuration?: number },
+  startTime: number,
+  now: number = Math.floor(Date.now() / 1000)
+): bigint {
+  const startPrice = BigInt(pricing.startPrice);
+  const floorPrice = BigInt(pricing.floorPrice);
+  const elapsed = now - startTime - (pricing.pausedDuration ?? 0);
+  if (elapsed <= 0) return startPrice;
+
+  const decay = BigInt(elapsed) * BigInt(pricing.priceDecayRate);
+  return decay >= startPrice - floorPrice ? floorPrice : startPrice - decay;
+}
+
+// Turns a token metadata URI into something fetch() and <img> understand
+export function resolveTokenURI(uri: string, tokenId?: string): string {
+  let resolved = uri;
+  if (tokenId !== undefined) {
+    // ERC-1155 clients substitute {id} with the lowercase hex ID, zero-padded to 64 characters
+    resolved = resolved.replace("{id}", BigInt(tokenId).toString(16).padStart(64, "0"));
+  }
+  if (resolved.startsWith("ipfs://")) {
+    return `https://ipfs.io/ipfs/${resolved.slice("ipfs://".length).replace(/^ipfs\//, "")}`;
+  }
+  return resolved;
+}
+
+// Sorted-pair Merkle tree over double-hashed address leaves, as the contract's registerBidder verifies.
+// Returns the root, and the proof of `account` when given; throws if `account` is not on the list.
+export function buildAllowlistTree(addresses: string[], account?: string): { root: string; proof: string[] } {
+  const hashLeaf = (address: string) =>
+    ethers.keccak256(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address"], [address])));
+  const hashPair = (a: string, b: string) => ethers.keccak256(ethers.concat(BigInt(a) < BigInt(b) ? [a, b] : [b, a]));
+
+  let layer = [...new Set(addresses.map((address) => hashLeaf(ethers.getAddress(address.trim()))))].sort();
+  let node = account ? hashLeaf(ethers.getAddress(account)) : undefined;
+  if (node && !layer.includes(node)) {
+    throw new Error(`${account} is not on the allowlist`);
+  }
+
+  const proof: string[] = [];
+  while (layer.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      // An odd node out moves up unchanged
+      const parent = i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i];
+      if (node === layer[i] || node === layer[i + 1]) {
+        if (i + 1 < layer.length) proof.push(node === layer[i] ? layer[i + 1] : layer[i]);
+        node = parent;
+      }
+      next.push(parent);
+    }
+    layer = next;
+  }
+  return { root: layer[0] ?? ethers.ZeroHash, proof };
+}
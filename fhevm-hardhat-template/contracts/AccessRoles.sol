@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title AccessRoles - Owner with two-step transfer and owner-managed roles
+/// @notice The owner holds every role and manages `ADMIN_ROLE`; admins manage every other role.
+///         Ownership moves in two steps, so it can never be handed to an address nobody controls.
+abstract contract AccessRoles {
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+
+    address public owner;
+    address public pendingOwner; // proposed by the owner, becomes owner once it accepts
+    mapping(bytes32 => mapping(address => bool)) private roles;
+    uint256[47] private __gap; // room for new variables without shifting the storage of upgradeable children
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this function");
+        _;
+    }
+
+    modifier onlyRole(bytes32 _role) {
+        require(hasRole(_role, msg.sender), "Missing role");
+        _;
+    }
+
+    /// @notice Check whether an account holds a role; the owner holds them all
+    /// @param _role Role identifier, e.g. `ADMIN_ROLE`
+    /// @param _account Address to check
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return _account == owner || roles[_role][_account];
+    }
+
+    /// @notice Grant a role (only the owner for `ADMIN_ROLE`, admins for any other role)
+    /// @param _role Role identifier
+    /// @param _account Address to grant the role to
+    function grantRole(bytes32 _role, address _account) external {
+        _checkRoleAdmin(_role);
+        _setRole(_role, _account, true);
+    }
+
+    /// @notice Revoke a role (only the owner for `ADMIN_ROLE`, admins for any other role)
+    /// @dev The owner's implicit roles cannot be revoked; transfer ownership instead
+    /// @param _role Role identifier
+    /// @param _account Address to revoke the role from
+    function revokeRole(bytes32 _role, address _account) external {
+        _checkRoleAdmin(_role);
+        _setRole(_role, _account, false);
+    }
+
+    /// @notice Give up a role held by the caller
+    /// @param _role Role identifier
+    function renounceRole(bytes32 _role) external {
+        _setRole(_role, msg.sender, false);
+    }
+
+    /// @notice Propose a new owner, who has to call `acceptOwnership`
+    /// @dev Proposing the zero address cancels a pending transfer
+    /// @param _newOwner Proposed owner
+    function transferOwnership(address _newOwner) external onlyOwner {
+        pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(owner, _newOwner);
+    }
+
+    /// @notice Accept a pending ownership transfer
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Not the pending owner");
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    /// @notice Set the initial owner, from a constructor or a proxy initializer
+    function _initializeOwner(address _owner) internal {
+        owner = _owner;
+        emit OwnershipTransferred(address(0), _owner);
+    }
+
+    function _checkRoleAdmin(bytes32 _role) internal view {
+        require(
+            _role == ADMIN_ROLE ? msg.sender == owner : hasRole(ADMIN_ROLE, msg.sender),
+            "Not allowed to manage this role"
+        );
+    }
+
+    /// @notice Store a role change, emitting an event only when it changes something
+    function _setRole(bytes32 _role, address _account, bool _granted) internal {
+        if (roles[_role][_account] == _granted) return;
+        roles[_role][_account] = _granted;
+        if (_granted) {
+            emit RoleGranted(_role, _account, msg.sender);
+        } else {
+            emit RoleRevoked(_role, _account, msg.sender);
+        }
+    }
+}
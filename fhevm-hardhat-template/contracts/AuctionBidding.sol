@@ -0,0 +1,518 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, ebool, eaddress} from "@fhevm/solidity/lib/FHE.sol";
+import {ConfidentialAuction} from "./ConfidentialAuction.sol";
+
+/// @title AuctionBidding - Encrypted bid bookkeeping for ConfidentialAuction
+/// @notice Linked library that keeps the bidding logic out of the auction contract's bytecode.
+///         It runs through DELEGATECALL, so storage, `msg.sender` and FHE permissions are the auction's own.
+library AuctionBidding {
+    /// @notice Record a bid, let auto-bidders respond and extend the auction on a last-minute bid
+    /// @dev Candle auctions never extend; the periods closed so far are snapshotted before the bid counts
+    function submitBid(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        address _bidder,
+        euint64 _bidAmount,
+        uint256 _value
+    ) external {
+        if (auction.candlePeriods > 0) {
+            snapshotCandle(auction);
+        }
+        recordBid(auction, _auctionId, _bidder, _bidAmount, _value);
+        if (auction.autoBidders.length > 0) {
+            runAutoBids(auction);
+        }
+        if (auction.candlePeriods == 0) {
+            extendOnLateBid(auction, _auctionId);
+        }
+    }
+
+    /// @notice Cover a bid with collateral, fold it into the encrypted highest bid and record the bidder
+    /// @dev `_bidder` is the caller, or the pseudonym of an anonymous bid
+    /// @return The bid as recorded, zero if it was rejected
+    function recordBid(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        address _bidder,
+        euint64 _bidAmount,
+        uint256 _value
+    ) public returns (euint64) {
+        // Update auction status to active if it was pending
+        if (auction.status == ConfidentialAuction.AuctionStatus.PENDING) {
+            auction.status = ConfidentialAuction.AuctionStatus.ACTIVE;
+        }
+
+        // Uncovered bids, and bids that do not beat the leader by the increment, are no-ops
+        // that still look like any other bid from the outside
+        ebool isAccepted = address(auction.paymentToken) == address(0)
+            ? _coverWithDeposit(auction, _auctionId, _bidder, _bidAmount, _value)
+            : _coverWithToken(auction, _bidAmount, _value);
+        if (auction.auctionType == ConfidentialAuction.AuctionType.SEALED_BID) {
+            // Comparing with the leader would let bidders probe the hidden highest bid through the acceptance
+            // flag, so a sealed bid only has to be covered and must not lower the bidder's own previous bid
+            if (auction.hasBid[_bidder]) {
+                isAccepted = FHE.and(isAccepted, FHE.ge(_bidAmount, auction.encryptedBids[_bidder]));
+            }
+        } else if (
+            auction.auctionType != ConfidentialAuction.AuctionType.DUTCH &&
+            auction.auctionType != ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE
+        ) {
+            euint64 minimumBid = FHE.add(auction.encryptedHighestBid, uint64(auction.minimumBidIncrement));
+            isAccepted = FHE.and(isAccepted, FHE.ge(_bidAmount, minimumBid));
+        }
+        euint64 bidAmount = FHE.select(isAccepted, _bidAmount, FHE.asEuint64(0));
+
+        if (auction.auctionType == ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE) {
+            // The runner-up is the larger of the old runner-up and the lower of this bid and the old leader
+            auction.encryptedSecondHighestBid = FHE.max(
+                auction.encryptedSecondHighestBid,
+                FHE.min(bidAmount, auction.encryptedHighestBid)
+            );
+            FHE.allowThis(auction.encryptedSecondHighestBid);
+            FHE.allow(auction.encryptedSecondHighestBid, auction.creator);
+        }
+
+        // Check if bid is higher than current highest bid
+        ebool isHigherBid = FHE.gt(bidAmount, auction.encryptedHighestBid);
+
+        // Update highest bid if this bid is higher
+        auction.encryptedHighestBid = FHE.select(isHigherBid, bidAmount, auction.encryptedHighestBid);
+
+        // Track the leading bidder with the same comparison so the winner stays hidden
+        auction.encryptedHighestBidder = FHE.select(
+            isHigherBid,
+            FHE.asEaddress(_bidder),
+            auction.encryptedHighestBidder
+        );
+
+        // Store bidder's bid, keeping the previous one when this bid is rejected
+        euint64 previousBid = auction.hasBid[_bidder] ? auction.encryptedBids[_bidder] : FHE.asEuint64(0);
+        auction.encryptedBids[_bidder] = FHE.select(isAccepted, _bidAmount, previousBid);
+        auction.bidHistory[_bidder].push(auction.encryptedBids[_bidder]);
+        auction.lastBidAccepted[_bidder] = isAccepted;
+        auction.bidTimestamps[_bidder] = block.timestamp;
+
+        // Add to bidders list if first bid
+        if (!auction.hasBid[_bidder]) {
+            auction.hasBid[_bidder] = true;
+            auction.bidders.push(_bidder);
+        }
+
+        auction.totalBids++;
+
+        // Grant permissions
+        FHE.allowThis(auction.encryptedHighestBid);
+        if (auction.auctionType != ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE) {
+            FHE.allow(auction.encryptedHighestBid, auction.creator);
+        }
+        FHE.allowThis(auction.encryptedHighestBidder);
+        FHE.allow(auction.encryptedHighestBidder, auction.creator);
+        FHE.allowThis(auction.encryptedBids[_bidder]);
+        FHE.allow(auction.encryptedBids[_bidder], _bidder);
+        FHE.allowThis(isAccepted);
+        FHE.allow(isAccepted, _bidder);
+
+        return bidAmount;
+    }
+
+    /// @notice Raise every auto-bidder who is not leading to the highest bid plus the increment, up to their maximum
+    /// @dev One pass in registration order, so auto-bidders can outbid each other once per manual bid.
+    ///      A raise also has to be covered by the auto-bidder's deposit or token escrow. Every auto-bidder's
+    ///      history gets an entry per pass, raised or not, so it does not show who was raised; a raise marks
+    ///      the latest bid as accepted, otherwise the previous flag stands.
+    function runAutoBids(ConfidentialAuction.Auction storage auction) public {
+        bool paysInToken = address(auction.paymentToken) != address(0);
+        for (uint256 i = 0; i < auction.autoBidders.length; i++) {
+            address autoBidder = auction.autoBidders[i];
+            if (autoBidder == msg.sender) continue;
+
+            euint64 target = FHE.add(auction.encryptedHighestBid, uint64(auction.minimumBidIncrement));
+            euint64 raised = FHE.min(auction.encryptedMaxAutoBid[autoBidder], target);
+            ebool isCovered = paysInToken
+                ? FHE.le(raised, auction.encryptedEscrow[autoBidder])
+                : FHE.le(raised, uint64(auction.deposits[autoBidder]));
+            ebool shouldRaise = FHE.and(
+                FHE.and(FHE.eq(raised, target), isCovered),
+                FHE.ne(auction.encryptedHighestBidder, FHE.asEaddress(autoBidder))
+            );
+
+            auction.encryptedHighestBid = FHE.select(shouldRaise, raised, auction.encryptedHighestBid);
+            auction.encryptedHighestBidder = FHE.select(
+                shouldRaise,
+                FHE.asEaddress(autoBidder),
+                auction.encryptedHighestBidder
+            );
+            auction.encryptedBids[autoBidder] = FHE.select(shouldRaise, raised, auction.encryptedBids[autoBidder]);
+            auction.bidHistory[autoBidder].push(auction.encryptedBids[autoBidder]);
+            auction.lastBidAccepted[autoBidder] = FHE.or(shouldRaise, auction.lastBidAccepted[autoBidder]);
+            auction.bidTimestamps[autoBidder] = block.timestamp;
+
+            FHE.allowThis(auction.encryptedBids[autoBidder]);
+            FHE.allow(auction.encryptedBids[autoBidder], autoBidder);
+            FHE.allowThis(auction.lastBidAccepted[autoBidder]);
+            FHE.allow(auction.lastBidAccepted[autoBidder], autoBidder);
+        }
+
+        FHE.allowThis(auction.encryptedHighestBid);
+        FHE.allow(auction.encryptedHighestBid, auction.creator);
+        FHE.allowThis(auction.encryptedHighestBidder);
+        FHE.allow(auction.encryptedHighestBidder, auction.creator);
+    }
+
+    /// @notice Extend the auction when a bid lands within its threshold of the end, until the cap is reached
+    function extendOnLateBid(ConfidentialAuction.Auction storage auction, uint256 _auctionId) public {
+        if (
+            auction.extensionTime > 0 &&
+            auction.extensionCount < auction.maxExtensions &&
+            auction.endTime - block.timestamp <= auction.extensionThreshold
+        ) {
+            auction.endTime += auction.extensionTime;
+            auction.extensionCount++;
+            auction.status = ConfidentialAuction.AuctionStatus.EXTENDED;
+            emit ConfidentialAuction.AuctionExtended(_auctionId, auction.endTime, auction.extensionCount);
+        }
+    }
+
+    /// @notice Record the current Dutch price as the caller's bid if their encrypted maximum meets it
+    /// @dev The price only falls, so the first acceptance recorded as a bid stays the highest. Acceptances that
+    ///      land after it, even before its callback ended the auction, cannot win and are reported as not accepted.
+    ///      The oracle calls back `acceptanceCallback` with whether the price was met.
+    function acceptPrice(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId,
+        euint64 _maxPrice,
+        uint256 _value
+    ) external {
+        require(auction.auctionType == ConfidentialAuction.AuctionType.DUTCH, "Not a Dutch auction");
+        require(auction.startPrice > 0, "Dutch pricing not set");
+
+        uint64 price = uint64(currentPrice(auction, auction.startTime, auction.pausedDuration));
+        euint64 offer = FHE.select(FHE.ge(_maxPrice, price), FHE.asEuint64(price), FHE.asEuint64(0));
+        ebool isFirst = FHE.eq(auction.encryptedHighestBid, 0);
+        ebool accepted = FHE.and(FHE.gt(recordBid(auction, _auctionId, msg.sender, offer, _value), 0), isFirst);
+        auction.lastBidAccepted[msg.sender] = accepted;
+        FHE.allowThis(accepted);
+        FHE.allow(accepted, msg.sender);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(accepted);
+        uint256 requestId = FHE.requestDecryption(cts, ConfidentialAuction.acceptanceCallback.selector);
+        _requests[requestId] = _auctionId;
+
+        emit ConfidentialAuction.BidPlaced(_auctionId, msg.sender, block.timestamp);
+        emit ConfidentialAuction.PriceAcceptanceRequested(_auctionId, msg.sender, price, requestId);
+    }
+
+    /// @notice Dutch price at the current block time; it does not decay while the auction is paused
+    /// @param _startTime Start time, pushed back by pauses before the auction started
+    /// @param _pausedDuration Time paused since the auction started
+    function currentPrice(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _startTime,
+        uint256 _pausedDuration
+    ) public view returns (uint256) {
+        if (block.timestamp <= _startTime) {
+            return auction.startPrice;
+        }
+        uint256 decay = (block.timestamp - _startTime - _pausedDuration) * auction.priceDecayRate;
+        if (decay >= auction.startPrice - auction.floorPrice) {
+            return auction.floorPrice;
+        }
+        return auction.startPrice - decay;
+    }
+
+    /// @notice Add `_value` to the bidder's public collateral
+    /// @dev Bids are euint64 wei, so a deposit above `type(uint64).max` wei (about 18.45 ETH) could not be
+    ///      compared with them and is rejected
+    function _lockDeposit(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        address _bidder,
+        uint256 _value
+    ) internal {
+        if (_value > 0) {
+            auction.deposits[_bidder] += _value;
+            require(auction.deposits[_bidder] <= type(uint64).max, "Deposit too large");
+            emit ConfidentialAuction.DepositLocked(_auctionId, _bidder, _value);
+        }
+    }
+
+    /// @notice Lock `_value` as public collateral and check the bid against the bidder's total deposit
+    function _coverWithDeposit(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        address _bidder,
+        euint64 _bidAmount,
+        uint256 _value
+    ) internal returns (ebool) {
+        _lockDeposit(auction, _auctionId, _bidder, _value);
+        uint256 deposit = auction.deposits[_bidder];
+        require(deposit > 0, "Deposit required");
+
+        return FHE.le(_bidAmount, uint64(deposit));
+    }
+
+    /// @notice Pull the part of the bid not yet escrowed from the bidder's encrypted token allowance
+    /// @dev A failed pull moves zero tokens, which leaves the bid uncovered
+    function _coverWithToken(
+        ConfidentialAuction.Auction storage auction,
+        euint64 _bidAmount,
+        uint256 _value
+    ) internal returns (ebool) {
+        require(_value == 0, "Auction is paid in tokens");
+
+        euint64 escrowed = auction.encryptedEscrow[msg.sender];
+        euint64 topUp = FHE.select(FHE.gt(_bidAmount, escrowed), FHE.sub(_bidAmount, escrowed), FHE.asEuint64(0));
+
+        FHE.allowTransient(topUp, address(auction.paymentToken));
+        euint64 transferred = auction.paymentToken.confidentialTransferFrom(msg.sender, address(this), topUp);
+
+        escrowed = FHE.add(escrowed, transferred);
+        auction.encryptedEscrow[msg.sender] = escrowed;
+        FHE.allowThis(escrowed);
+        FHE.allow(escrowed, msg.sender);
+
+        return FHE.le(_bidAmount, escrowed);
+    }
+
+    /// @notice Register or update the caller's encrypted maximum for proxy bidding
+    /// @dev ETH auctions lock `_value` as collateral; token auctions pull the maximum into escrow
+    function registerAutoBid(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        euint64 _maxBidAmount,
+        uint256 _value,
+        uint256 _maxAutoBidders
+    ) external {
+        require(
+            auction.status == ConfidentialAuction.AuctionStatus.PENDING ||
+                auction.status == ConfidentialAuction.AuctionStatus.ACTIVE,
+            "Cannot set auto-bid on ended auction"
+        );
+        require(block.timestamp < auction.endTime, "Auction ended");
+        require(
+            auction.auctionType == ConfidentialAuction.AuctionType.ENGLISH ||
+                auction.auctionType == ConfidentialAuction.AuctionType.RESERVE,
+            "Auto-bid not supported"
+        );
+        require(
+            auction.hasAutoBid[msg.sender] || auction.autoBidders.length < _maxAutoBidders,
+            "Too many auto-bidders"
+        );
+
+        if (address(auction.paymentToken) == address(0)) {
+            _lockDeposit(auction, _auctionId, msg.sender, _value);
+        } else {
+            _coverWithToken(auction, _maxBidAmount, _value);
+        }
+
+        if (!auction.hasAutoBid[msg.sender]) {
+            auction.autoBidders.push(msg.sender);
+        }
+        if (!auction.hasBid[msg.sender]) {
+            // Raises land in encryptedBids, so start from an initialized zero bid
+            auction.encryptedBids[msg.sender] = FHE.asEuint64(0);
+            FHE.allowThis(auction.encryptedBids[msg.sender]);
+            FHE.allow(auction.encryptedBids[msg.sender], msg.sender);
+            auction.hasBid[msg.sender] = true;
+            auction.bidders.push(msg.sender);
+        }
+
+        auction.encryptedMaxAutoBid[msg.sender] = _maxBidAmount;
+        auction.hasAutoBid[msg.sender] = true;
+
+        // Grant permissions
+        FHE.allowThis(auction.encryptedMaxAutoBid[msg.sender]);
+        FHE.allow(auction.encryptedMaxAutoBid[msg.sender], msg.sender);
+    }
+
+    /// @notice Replace the caller's sealed bid with any covered amount, lower ones included, and recompute the leader
+    /// @dev An uncovered revision keeps the previous bid; `getLastBidAccepted` tells the bidder which happened
+    /// @return done True when the recompute finished within this call
+    function reviseSealedBid(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        euint64 _newBid,
+        uint256 _value,
+        uint256 _batchSize
+    ) external returns (bool done) {
+        ebool isCovered = address(auction.paymentToken) == address(0)
+            ? _coverWithDeposit(auction, _auctionId, msg.sender, _newBid, _value)
+            : _coverWithToken(auction, _newBid, _value);
+
+        _storeBid(auction, FHE.select(isCovered, _newBid, auction.encryptedBids[msg.sender]));
+        auction.lastBidAccepted[msg.sender] = isCovered;
+        FHE.allowThis(isCovered);
+        FHE.allow(isCovered, msg.sender);
+
+        _resetLeader(auction);
+        return _recomputeBatch(auction, _batchSize);
+    }
+
+    /// @notice Zero the caller's sealed bid and recompute the leader; the deposit stays locked until settlement
+    /// @return done True when the recompute finished within this call
+    function withdrawSealedBid(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _batchSize
+    ) external returns (bool done) {
+        _storeBid(auction, FHE.asEuint64(0));
+        _resetLeader(auction);
+        return _recomputeBatch(auction, _batchSize);
+    }
+
+    /// @notice Fold the next batch of bidders into the recomputed leader
+    /// @return done True once every bidder has been folded in
+    function recomputeHighestBid(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _batchSize
+    ) external returns (bool done) {
+        return _recomputeBatch(auction, _batchSize);
+    }
+
+    /// @notice Split the last `_window` seconds before the end time into `_periods` candle periods
+    function setCandleEnding(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        uint256 _window,
+        uint256 _periods,
+        uint256 _maxPeriods
+    ) external {
+        require(
+            auction.auctionType == ConfidentialAuction.AuctionType.ENGLISH ||
+                auction.auctionType == ConfidentialAuction.AuctionType.RESERVE,
+            "Candle ending not supported"
+        );
+        require(_periods >= 2 && _periods <= _maxPeriods, "Invalid candle periods");
+        require(_window >= _periods && _window <= auction.endTime - auction.startTime, "Invalid candle window");
+
+        auction.candleWindow = _window;
+        auction.candlePeriods = _periods;
+        emit ConfidentialAuction.CandleEndingSet(_auctionId, _window, _periods);
+    }
+
+    /// @notice Record the leader as of the close of every period that ended before this block
+    /// @dev Called ahead of each bid, so a period's snapshot only holds bids placed before it closed
+    function snapshotCandle(ConfidentialAuction.Auction storage auction) public {
+        uint256 windowStart = auction.endTime - auction.candleWindow;
+        if (block.timestamp < windowStart) return;
+
+        uint256 closed = ((block.timestamp - windowStart) * auction.candlePeriods) / auction.candleWindow;
+        _fillCandleSnapshots(auction, closed < auction.candlePeriods ? closed : auction.candlePeriods);
+    }
+
+    /// @notice Draw the period the candle went out in and make its leader the winner
+    /// @dev The period index comes from `FHE.randEuint64`, so nobody can tell the close before bidding is over.
+    ///      It stays encrypted, and is selected homomorphically, until the results are revealed.
+    function drawCandleEnd(ConfidentialAuction.Auction storage auction, uint256 _auctionId) external {
+        require(auction.candlePeriods > 0, "Not a candle auction");
+        require(!auction.candleDrawn, "Candle end already drawn");
+        require(
+            auction.status == ConfidentialAuction.AuctionStatus.ENDED || block.timestamp > auction.endTime,
+            "Auction not finished"
+        );
+        auction.candleDrawn = true;
+
+        // Periods that closed without a later bid hold the final leader
+        _fillCandleSnapshots(auction, auction.candlePeriods);
+
+        euint64 closingPeriod = FHE.rem(FHE.randEuint64(), uint64(auction.candlePeriods));
+        euint64 highestBid = FHE.asEuint64(0);
+        eaddress highestBidder = FHE.asEaddress(address(0));
+        for (uint256 i = 0; i < auction.candlePeriods; i++) {
+            ebool isClose = FHE.eq(closingPeriod, uint64(i));
+            highestBid = FHE.select(isClose, auction.candleBids[i], highestBid);
+            highestBidder = FHE.select(isClose, auction.candleBidders[i], highestBidder);
+        }
+
+        auction.encryptedCandlePeriod = closingPeriod;
+        auction.encryptedHighestBid = highestBid;
+        auction.encryptedHighestBidder = highestBidder;
+        FHE.allowThis(closingPeriod);
+        FHE.allowThis(highestBid);
+        FHE.allow(highestBid, auction.creator);
+        FHE.allowThis(highestBidder);
+        FHE.allow(highestBidder, auction.creator);
+
+        emit ConfidentialAuction.CandleEndDrawn(_auctionId);
+    }
+
+    /// @notice Snapshot the current leader for every period not yet recorded, up to `_periods`
+    function _fillCandleSnapshots(ConfidentialAuction.Auction storage auction, uint256 _periods) internal {
+        for (uint256 i = auction.candleBids.length; i < _periods; i++) {
+            auction.candleBids.push(auction.encryptedHighestBid);
+            auction.candleBidders.push(auction.encryptedHighestBidder);
+        }
+    }
+
+    /// @notice Store the caller's bid and append it to their history, which only they can decrypt
+    function _storeBid(ConfidentialAuction.Auction storage auction, euint64 _bid) internal {
+        auction.encryptedBids[msg.sender] = _bid;
+        auction.bidHistory[msg.sender].push(_bid);
+        auction.bidTimestamps[msg.sender] = block.timestamp;
+        FHE.allowThis(_bid);
+        FHE.allow(_bid, msg.sender);
+    }
+
+    /// @notice Start recomputing the highest bid, the leader and the runner-up from scratch
+    function _resetLeader(ConfidentialAuction.Auction storage auction) internal {
+        auction.encryptedHighestBid = FHE.asEuint64(0);
+        auction.encryptedHighestBidder = FHE.asEaddress(address(0));
+        if (auction.auctionType == ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE) {
+            auction.encryptedSecondHighestBid = FHE.asEuint64(0);
+        }
+        auction.recomputeCursor = 0;
+        auction.recomputePending = true;
+    }
+
+    /// @notice Fold up to `_batchSize` bidders, in first-bid order, into the highest bid
+    /// @dev Ties keep the earlier bidder, as in `recordBid`
+    function _recomputeBatch(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _batchSize
+    ) internal returns (bool done) {
+        bool isSecondPrice = auction.auctionType == ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE;
+        uint256 end = auction.recomputeCursor + _batchSize;
+        if (end > auction.bidders.length) {
+            end = auction.bidders.length;
+        }
+
+        for (uint256 i = auction.recomputeCursor; i < end; i++) {
+            address bidder = auction.bidders[i];
+            euint64 bid = auction.encryptedBids[bidder];
+            if (isSecondPrice) {
+                auction.encryptedSecondHighestBid = FHE.max(
+                    auction.encryptedSecondHighestBid,
+                    FHE.min(bid, auction.encryptedHighestBid)
+                );
+            }
+
+            ebool isHigherBid = FHE.gt(bid, auction.encryptedHighestBid);
+            auction.encryptedHighestBid = FHE.select(isHigherBid, bid, auction.encryptedHighestBid);
+            auction.encryptedHighestBidder = FHE.select(
+                isHigherBid,
+                FHE.asEaddress(bidder),
+                auction.encryptedHighestBidder
+            );
+        }
+
+        auction.recomputeCursor = end;
+        done = end == auction.bidders.length;
+        if (done) {
+            auction.recomputePending = false;
+        }
+
+        // Grant permissions; the creator never sees the winning bid of a second-price auction
+        FHE.allowThis(auction.encryptedHighestBid);
+        FHE.allowThis(auction.encryptedHighestBidder);
+        FHE.allow(auction.encryptedHighestBidder, auction.creator);
+        if (isSecondPrice) {
+            FHE.allowThis(auction.encryptedSecondHighestBid);
+            FHE.allow(auction.encryptedSecondHighestBid, auction.creator);
+        } else {
+            FHE.allow(auction.encryptedHighestBid, auction.creator);
+        }
+    }
+}
@@ -0,0 +1,320 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {ConfidentialAuction} from "./ConfidentialAuction.sol";
+
+/// @title AuctionCreation - Auction validation, initialization and bidder access for ConfidentialAuction
+/// @notice Linked library, called through DELEGATECALL like `AuctionBidding`, so the encrypted reserve price is
+///         verified against the creator's input proof and permissioned for the auction contract itself.
+library AuctionCreation {
+    /// @notice Validate the schedule and anti-sniping policy and store a new auction
+    function initialize(
+        ConfidentialAuction.Auction storage newAuction,
+        uint256 _auctionId,
+        string memory _title,
+        string memory _description,
+        string memory _itemImageUrl,
+        ConfidentialAuction.AuctionType _auctionType,
+        uint256 _startTime,
+        uint256 _endTime,
+        uint256 _minimumBidIncrement,
+        ConfidentialAuction.ExtensionPolicy calldata _extension,
+        bool _hasReservePrice,
+        externalEuint64 _encryptedReservePrice,
+        bytes calldata _reserveProof,
+        uint256 _maxTotalExtension
+    ) external {
+        require(_startTime < _endTime, "Invalid time range");
+        require(_endTime > block.timestamp, "End time must be in future");
+        require(_minimumBidIncrement > 0, "Minimum bid increment must be positive");
+        require(_minimumBidIncrement <= type(uint64).max, "Minimum bid increment too large");
+        if (_extension.extensionTime > 0) {
+            require(
+                _extension.threshold > 0 && _extension.threshold <= _endTime - _startTime,
+                "Invalid extension threshold"
+            );
+            require(_extension.maxExtensions > 0, "Invalid extension cap");
+            require(
+                _extension.maxExtensions <= _maxTotalExtension / _extension.extensionTime,
+                "Extension cap too large"
+            );
+        }
+
+        newAuction.title = _title;
+        newAuction.description = _description;
+        newAuction.itemImageUrl = _itemImageUrl;
+        newAuction.creator = msg.sender;
+        newAuction.auctionType = _auctionType;
+        newAuction.status = ConfidentialAuction.AuctionStatus.PENDING;
+        newAuction.startTime = _startTime;
+        newAuction.endTime = _endTime;
+        newAuction.extensionTime = _extension.extensionTime;
+        newAuction.extensionThreshold = _extension.threshold;
+        newAuction.maxExtensions = _extension.maxExtensions;
+        newAuction.minimumBidIncrement = _minimumBidIncrement;
+        newAuction.totalBids = 0;
+        newAuction.hasReservePrice = _hasReservePrice;
+
+        // Initialize encrypted values
+        newAuction.encryptedHighestBid = FHE.asEuint64(0);
+        FHE.allowThis(newAuction.encryptedHighestBid);
+        if (_auctionType == ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE) {
+            // The creator only ever sees the clearing price, never the winning bid
+            newAuction.encryptedSecondHighestBid = FHE.asEuint64(0);
+            FHE.allowThis(newAuction.encryptedSecondHighestBid);
+            FHE.allow(newAuction.encryptedSecondHighestBid, msg.sender);
+        } else {
+            FHE.allow(newAuction.encryptedHighestBid, msg.sender);
+        }
+
+        newAuction.encryptedHighestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(newAuction.encryptedHighestBidder);
+        FHE.allow(newAuction.encryptedHighestBidder, msg.sender);
+
+        if (_hasReservePrice) {
+            newAuction.encryptedReservePrice = FHE.fromExternal(_encryptedReservePrice, _reserveProof);
+            FHE.allowThis(newAuction.encryptedReservePrice);
+            FHE.allow(newAuction.encryptedReservePrice, msg.sender);
+        }
+
+        emit ConfidentialAuction.AuctionCreated(_auctionId, _title, msg.sender, _auctionType, _startTime, _endTime);
+    }
+
+    /// @notice Replace the title, description and image of an auction
+    function updateMetadata(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        string calldata _title,
+        string calldata _description,
+        string calldata _itemImageUrl
+    ) external {
+        auction.title = _title;
+        auction.description = _description;
+        auction.itemImageUrl = _itemImageUrl;
+        emit ConfidentialAuction.AuctionMetadataUpdated(_auctionId, _title);
+    }
+
+    /// @notice Set or remove the off-chain listing of an auction
+    function setMetadataURI(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        string calldata _metadataURI,
+        bytes32 _metadataHash
+    ) external {
+        require((bytes(_metadataURI).length == 0) == (_metadataHash == bytes32(0)), "Invalid metadata hash");
+        auction.metadataURI = _metadataURI;
+        auction.metadataHash = _metadataHash;
+        emit ConfidentialAuction.MetadataURISet(_auctionId, _metadataURI, _metadataHash);
+    }
+
+    /// @notice Register a new category under the next ID
+    function addCategory(
+        ConfidentialAuction.Category storage category,
+        uint256 _categoryId,
+        string calldata _name
+    ) external {
+        require(bytes(_name).length > 0, "Invalid category name");
+        category.name = _name;
+        emit ConfidentialAuction.CategoryAdded(_categoryId, _name);
+    }
+
+    /// @notice Stop a category from taking new auctions
+    function retireCategory(ConfidentialAuction.Category storage category, uint256 _categoryId) external {
+        require(bytes(category.name).length > 0, "Unknown category");
+        category.retired = true;
+        emit ConfidentialAuction.CategoryRetired(_categoryId);
+    }
+
+    /// @notice File an auction under a category, zero for none, and replace its tags
+    function setCategory(
+        ConfidentialAuction.Auction storage auction,
+        ConfidentialAuction.Category storage category,
+        uint256 _auctionId,
+        uint256 _categoryId,
+        bytes32[] calldata _tags,
+        uint256 _maxTags
+    ) external {
+        // Unregistered IDs have no name
+        require(_categoryId == 0 || bytes(category.name).length > 0, "Unknown category");
+        require(!category.retired, "Category retired");
+        require(_tags.length <= _maxTags, "Too many tags");
+        for (uint256 i = 0; i < _tags.length; i++) {
+            require(_tags[i] != bytes32(0), "Invalid tag");
+        }
+
+        auction.categoryId = _categoryId;
+        auction.tags = _tags;
+        emit ConfidentialAuction.AuctionCategorized(_auctionId, _categoryId, _tags);
+    }
+
+    /// @notice Move the start and end times of an auction that has not started yet
+    /// @dev The anti-sniping threshold and candle window must still fit in the new duration
+    function reschedule(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        uint256 _startTime,
+        uint256 _endTime
+    ) external {
+        require(block.timestamp < auction.startTime, "Auction already started");
+        require(_startTime >= block.timestamp, "Start time in the past");
+        require(_startTime < _endTime, "Invalid time range");
+        require(_endTime > block.timestamp, "End time must be in future");
+        require(
+            auction.extensionTime == 0 || auction.extensionThreshold <= _endTime - _startTime,
+            "Invalid extension threshold"
+        );
+        require(auction.candleWindow <= _endTime - _startTime, "Invalid candle window");
+
+        auction.startTime = _startTime;
+        auction.endTime = _endTime;
+        emit ConfidentialAuction.AuctionRescheduled(_auctionId, _startTime, _endTime);
+    }
+
+    /// @notice Resume a paused auction, adding the time it was paused to its end time
+    function unpause(
+        ConfidentialAuction.Auction storage auction,
+        ConfidentialAuction.PausePeriod[] storage _pauses,
+        uint256 _auctionId
+    ) external {
+        require(auction.pausedAt != 0, "Auction not paused");
+        applyPauses(auction, _pauses);
+        auction.pausedAt = 0;
+        emit ConfidentialAuction.AuctionUnpaused(_auctionId, auction.endTime);
+    }
+
+    /// @notice Add the pauses not yet accounted for to the stored schedule
+    function applyPauses(
+        ConfidentialAuction.Auction storage auction,
+        ConfidentialAuction.PausePeriod[] storage _pauses
+    ) public {
+        (auction.startTime, auction.endTime, auction.pausedDuration) = pausedSchedule(auction, _pauses);
+        auction.pauseCursor = _pauses.length;
+    }
+
+    /// @notice Start time, end time and time paused since the start, including the pauses not yet added to the
+    ///         stored schedule
+    /// @dev A global pause only delays auctions that were not over when it started
+    function pausedSchedule(
+        ConfidentialAuction.Auction storage auction,
+        ConfidentialAuction.PausePeriod[] storage _pauses
+    ) public view returns (uint256 startTime, uint256 endTime, uint256 pausedDuration) {
+        startTime = auction.startTime;
+        endTime = auction.endTime;
+        pausedDuration = auction.pausedDuration;
+        if (auction.pausedAt != 0) {
+            // Global pauses that started since then fall within the auction pause
+            return _delay(startTime, endTime, pausedDuration, auction.pausedAt, block.timestamp);
+        }
+        for (uint256 i = auction.pauseCursor; i < _pauses.length; i++) {
+            ConfidentialAuction.PausePeriod storage period = _pauses[i];
+            if (period.start <= endTime) {
+                (startTime, endTime, pausedDuration) = _delay(
+                    startTime,
+                    endTime,
+                    pausedDuration,
+                    period.start,
+                    period.end == 0 ? block.timestamp : period.end
+                );
+            }
+        }
+    }
+
+    /// @notice Set the public price schedule of a Dutch auction
+    function setDutchPricing(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        uint256 _startPrice,
+        uint256 _floorPrice,
+        uint256 _priceDecayRate
+    ) external {
+        require(auction.auctionType == ConfidentialAuction.AuctionType.DUTCH, "Not a Dutch auction");
+        require(_startPrice > 0 && _startPrice <= type(uint64).max, "Invalid start price");
+        require(_floorPrice <= _startPrice, "Floor above start price");
+        require(_floorPrice > 0, "Floor price must be positive"); // a zero price can never be accepted
+
+        auction.startPrice = _startPrice;
+        auction.floorPrice = _floorPrice;
+        auction.priceDecayRate = _priceDecayRate;
+        emit ConfidentialAuction.DutchPricingSet(_auctionId, _startPrice, _floorPrice, _priceDecayRate);
+    }
+
+    /// @notice Restrict bidding to an allowlist, given as explicit addresses and, optionally, a Merkle root
+    function setAllowlist(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        bytes32 _merkleRoot
+    ) external {
+        require(!auction.anonymousBids, "Anonymous auctions are public");
+        auction.isPrivate = true;
+        auction.bidderRoot = _merkleRoot;
+        emit ConfidentialAuction.AllowlistSet(_auctionId, _merkleRoot);
+    }
+
+    /// @notice Key bids by commitment pseudonyms instead of bidder addresses
+    function setAnonymousBidding(ConfidentialAuction.Auction storage auction, uint256 _auctionId) external {
+        require(
+            auction.auctionType != ConfidentialAuction.AuctionType.DUTCH &&
+                auction.auctionType != ConfidentialAuction.AuctionType.MULTI_UNIT_UNIFORM,
+            "Anonymous bidding not supported"
+        );
+        require(address(auction.paymentToken) == address(0), "Anonymous auctions take ETH");
+        require(auction.lot.standard == ConfidentialAuction.LotStandard.NONE, "Lots not supported");
+        require(!auction.isPrivate, "Anonymous auctions are public");
+
+        auction.anonymousBids = true;
+        emit ConfidentialAuction.AnonymousBiddingEnabled(_auctionId);
+    }
+
+    /// @notice Allow or disallow explicit addresses; disallowed addresses cannot register with a Merkle proof
+    function updateBidders(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        address[] calldata _bidders,
+        bool _allowed
+    ) external {
+        require(msg.sender == auction.creator, "Only creator");
+        require(auction.isPrivate, "Auction is public");
+
+        for (uint256 i = 0; i < _bidders.length; i++) {
+            auction.allowedBidders[_bidders[i]] = _allowed;
+            auction.removedBidders[_bidders[i]] = !_allowed;
+            emit ConfidentialAuction.AllowlistUpdated(_auctionId, _bidders[i], _allowed);
+        }
+    }
+
+    /// @notice Allow the caller to bid by proving they are a leaf of the auction's Merkle root
+    /// @dev Leaves are `keccak256(bytes.concat(keccak256(abi.encode(bidder))))`, as in OpenZeppelin's
+    ///      StandardMerkleTree, with sorted pair hashing
+    function registerBidder(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        bytes32[] calldata _proof
+    ) external {
+        require(auction.bidderRoot != bytes32(0), "No Merkle allowlist");
+        require(!auction.removedBidders[msg.sender], "Bidder removed");
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        require(MerkleProof.verifyCalldata(_proof, auction.bidderRoot, leaf), "Invalid Merkle proof");
+
+        auction.allowedBidders[msg.sender] = true;
+        emit ConfidentialAuction.AllowlistUpdated(_auctionId, msg.sender, true);
+    }
+
+    /// @notice Push a schedule back by a pause: the end always, and the start too if the auction had not started,
+    ///         so it keeps its notice period; otherwise the pause counts as time paused since the start
+    function _delay(
+        uint256 _startTime,
+        uint256 _endTime,
+        uint256 _pausedDuration,
+        uint256 _pauseStart,
+        uint256 _pauseEnd
+    ) private pure returns (uint256, uint256, uint256) {
+        uint256 length = _pauseEnd - _pauseStart;
+        if (_pauseStart < _startTime) {
+            return (_startTime + length, _endTime + length, _pausedDuration);
+        }
+        return (_startTime, _endTime + length, _pausedDuration + length);
+    }
+}
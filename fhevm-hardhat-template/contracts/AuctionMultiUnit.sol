@@ -0,0 +1,211 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, euint128, ebool, eaddress} from "@fhevm/solidity/lib/FHE.sol";
+import {ConfidentialAuction} from "./ConfidentialAuction.sol";
+
+/// @title AuctionMultiUnit - Uniform-price auctions of identical units for ConfidentialAuction
+/// @notice Linked library, called through DELEGATECALL like `AuctionBidding`. Every bid asks for an encrypted
+///         quantity at an encrypted unit price and is inserted into an encrypted top-N list, N being the unit
+///         supply. Since every accepted bid asks for at least one unit, bids outside the list can never win.
+library AuctionMultiUnit {
+    /// @notice Set the number of units on sale and fill the top-N list with empty bids
+    function setUnitSupply(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        uint256 _units,
+        uint256 _maxUnits
+    ) external {
+        require(auction.auctionType == ConfidentialAuction.AuctionType.MULTI_UNIT_UNIFORM, "Not a multi-unit auction");
+        require(_units > 0 && _units <= _maxUnits, "Invalid unit supply");
+        require(!auction.hasReservePrice, "Reserve not supported");
+        require(auction.lot.standard == ConfidentialAuction.LotStandard.NONE, "Lots not supported");
+
+        delete auction.unitPrices;
+        delete auction.unitQuantities;
+        delete auction.unitBidders;
+
+        euint64 empty = FHE.asEuint64(0);
+        eaddress nobody = FHE.asEaddress(address(0));
+        FHE.allowThis(empty);
+        FHE.allowThis(nobody);
+        for (uint256 i = 0; i < _units; i++) {
+            auction.unitPrices.push(empty);
+            auction.unitQuantities.push(empty);
+            auction.unitBidders.push(nobody);
+        }
+
+        auction.totalUnits = _units;
+        emit ConfidentialAuction.UnitSupplySet(_auctionId, _units);
+    }
+
+    /// @notice Lock `_value` as collateral and insert the caller's bid into the top-N list
+    /// @dev A bid must ask for one to N units at a positive price, and the deposit must cover price times
+    ///      quantity. Anything else is a hidden no-op; `getLastBidAccepted` tells the bidder which happened.
+    function recordUnitBid(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        euint64 _unitPrice,
+        euint64 _quantity,
+        uint256 _value
+    ) external {
+        require(auction.totalUnits > 0, "Unit supply not set");
+        require(!auction.hasBid[msg.sender], "Sealed bid already placed");
+
+        if (auction.status == ConfidentialAuction.AuctionStatus.PENDING) {
+            auction.status = ConfidentialAuction.AuctionStatus.ACTIVE;
+        }
+
+        if (_value > 0) {
+            auction.deposits[msg.sender] += _value;
+            emit ConfidentialAuction.DepositLocked(_auctionId, msg.sender, _value);
+        }
+        uint256 deposit = auction.deposits[msg.sender];
+        require(deposit > 0, "Deposit required");
+        require(deposit <= type(uint64).max, "Deposit too large");
+
+        // The cost is compared in 128 bits so a huge price times quantity cannot wrap below the deposit
+        euint128 cost = FHE.mul(FHE.asEuint128(_unitPrice), FHE.asEuint128(_quantity));
+        ebool isAccepted = FHE.and(
+            FHE.and(FHE.gt(_quantity, 0), FHE.le(_quantity, uint64(auction.totalUnits))),
+            FHE.and(FHE.gt(_unitPrice, 0), FHE.le(cost, uint128(deposit)))
+        );
+        euint64 unitPrice = FHE.select(isAccepted, _unitPrice, FHE.asEuint64(0));
+        euint64 quantity = FHE.select(isAccepted, _quantity, FHE.asEuint64(0));
+        _insert(auction, unitPrice, quantity);
+
+        auction.encryptedBids[msg.sender] = unitPrice;
+        auction.encryptedUnitBids[msg.sender] = quantity;
+        auction.bidHistory[msg.sender].push(unitPrice);
+        auction.lastBidAccepted[msg.sender] = isAccepted;
+        auction.bidTimestamps[msg.sender] = block.timestamp;
+        auction.hasBid[msg.sender] = true;
+        auction.bidders.push(msg.sender);
+        auction.totalBids++;
+
+        // Grant permissions
+        FHE.allowThis(unitPrice);
+        FHE.allow(unitPrice, msg.sender);
+        FHE.allowThis(quantity);
+        FHE.allow(quantity, msg.sender);
+        FHE.allowThis(isAccepted);
+        FHE.allow(isAccepted, msg.sender);
+    }
+
+    /// @notice Walk the list from the top, swapping the carried bid with every slot it outbids
+    /// @dev Ties keep the earlier bid ahead; whatever is carried past the last slot drops out
+    function _insert(ConfidentialAuction.Auction storage auction, euint64 _unitPrice, euint64 _quantity) internal {
+        euint64 carriedPrice = _unitPrice;
+        euint64 carriedQuantity = _quantity;
+        eaddress carriedBidder = FHE.asEaddress(msg.sender);
+
+        for (uint256 i = 0; i < auction.unitPrices.length; i++) {
+            euint64 slotPrice = auction.unitPrices[i];
+            euint64 slotQuantity = auction.unitQuantities[i];
+            eaddress slotBidder = auction.unitBidders[i];
+            ebool isHigher = FHE.gt(carriedPrice, slotPrice);
+
+            auction.unitPrices[i] = FHE.select(isHigher, carriedPrice, slotPrice);
+            auction.unitQuantities[i] = FHE.select(isHigher, carriedQuantity, slotQuantity);
+            auction.unitBidders[i] = FHE.select(isHigher, carriedBidder, slotBidder);
+            carriedPrice = FHE.select(isHigher, slotPrice, carriedPrice);
+            carriedQuantity = FHE.select(isHigher, slotQuantity, carriedQuantity);
+            carriedBidder = FHE.select(isHigher, slotBidder, carriedBidder);
+
+            FHE.allowThis(auction.unitPrices[i]);
+            FHE.allowThis(auction.unitQuantities[i]);
+            FHE.allowThis(auction.unitBidders[i]);
+        }
+    }
+
+    /// @notice Hand out the units down the list and derive the clearing price, once bidding is over
+    /// @dev The clearing price is the lowest unit price that still wins at least one unit.
+    ///      Only the creator can decrypt it, and the units sold, before they are revealed.
+    function allocate(ConfidentialAuction.Auction storage auction) public {
+        if (auction.unitsAllocated) return;
+        auction.unitsAllocated = true;
+
+        euint64 remaining = FHE.asEuint64(uint64(auction.totalUnits));
+        euint64 clearingPrice = FHE.asEuint64(0);
+        for (uint256 i = 0; i < auction.unitPrices.length; i++) {
+            euint64 allocation = FHE.min(auction.unitQuantities[i], remaining);
+            remaining = FHE.sub(remaining, allocation);
+            clearingPrice = FHE.select(FHE.gt(allocation, 0), auction.unitPrices[i], clearingPrice);
+
+            auction.unitAllocations.push(allocation);
+            FHE.allowThis(allocation);
+        }
+
+        auction.encryptedUnitClearingPrice = clearingPrice;
+        auction.encryptedUnitsSold = FHE.sub(uint64(auction.totalUnits), remaining);
+        FHE.allowThis(auction.encryptedUnitClearingPrice);
+        FHE.allow(auction.encryptedUnitClearingPrice, auction.creator);
+        FHE.allowThis(auction.encryptedUnitsSold);
+        FHE.allow(auction.encryptedUnitsSold, auction.creator);
+    }
+
+    /// @notice Compute the caller's encrypted allocation, which only they can decrypt
+    /// @dev The caller holds at most one slot, so the matching slot's allocation is picked out
+    function computeAllocation(ConfidentialAuction.Auction storage auction) public returns (euint64 allocation) {
+        require(auction.hasBid[msg.sender], "No bid placed");
+        require(
+            auction.status == ConfidentialAuction.AuctionStatus.ENDED || block.timestamp > auction.endTime,
+            "Auction not finished"
+        );
+        allocate(auction);
+
+        allocation = FHE.asEuint64(0);
+        for (uint256 i = 0; i < auction.unitAllocations.length; i++) {
+            allocation = FHE.select(FHE.eq(auction.unitBidders[i], msg.sender), auction.unitAllocations[i], allocation);
+        }
+
+        auction.encryptedAllocations[msg.sender] = allocation;
+        FHE.allowThis(allocation);
+        FHE.allow(allocation, msg.sender);
+    }
+
+    /// @notice Request decryption of what the caller pays for their units, to refund the rest of their deposit
+    /// @dev The oracle calls back `unitRefundCallback`. The payment, and so the allocation, becomes public
+    ///      at this point, as any ETH refund would reveal it anyway.
+    function requestRefund(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId
+    ) external {
+        require(auction.deposits[msg.sender] > 0 && !auction.refundRequested[msg.sender], "Nothing to withdraw");
+        auction.refundRequested[msg.sender] = true;
+
+        euint64 allocation = auction.encryptedAllocations[msg.sender];
+        if (!FHE.isInitialized(allocation)) {
+            allocation = computeAllocation(auction);
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(FHE.mul(allocation, uint64(auction.winningBid)));
+        uint256 requestId = FHE.requestDecryption(cts, ConfidentialAuction.unitRefundCallback.selector);
+        _requests[requestId] = _auctionId;
+        auction.refundRequests[requestId] = msg.sender;
+
+        emit ConfidentialAuction.UnitRefundRequested(_auctionId, msg.sender, requestId);
+    }
+
+    /// @notice Refund the bidder's deposit minus the decrypted payment
+    function completeRefund(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        uint256 _requestId,
+        uint64 _payment
+    ) external {
+        address bidder = auction.refundRequests[_requestId];
+        require(bidder != address(0), "Unknown refund request");
+        delete auction.refundRequests[_requestId];
+
+        uint256 amount = auction.deposits[bidder] - _payment;
+        auction.deposits[bidder] = 0;
+
+        (bool success, ) = payable(bidder).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit ConfidentialAuction.DepositWithdrawn(_auctionId, bidder, amount);
+    }
+}
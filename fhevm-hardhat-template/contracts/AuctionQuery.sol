@@ -0,0 +1,215 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ConfidentialAuction} from "./ConfidentialAuction.sol";
+
+/// @title AuctionQuery - Paginated and filtered auction listings for ConfidentialAuction
+/// @notice Read-only companion of the auction: clients load a page of auctions in one call instead of one call per
+///         auction and getter. It only goes through the auction's public getters and keeps no state of its own,
+///         so it can be redeployed at will, and the auction itself stays under the contract size limit.
+contract AuctionQuery {
+    /// @notice Everything a client lists about an auction
+    struct AuctionSummary {
+        uint256 id;
+        string title;
+        string description;
+        string itemImageUrl;
+        address creator;
+        ConfidentialAuction.AuctionType auctionType;
+        ConfidentialAuction.AuctionStatus status;
+        ConfidentialAuction.AuctionStatus effectiveStatus; // see `getEffectiveStatus`
+        uint256 startTime;
+        uint256 endTime;
+        uint256 minimumBidIncrement;
+        uint256 totalBids;
+        bool hasReservePrice;
+        uint256 totalUnits;
+        ConfidentialAuction.ExtensionPolicy extensionPolicy;
+        uint256 extensionCount;
+        address paymentToken;
+        uint256 startPrice;
+        uint256 floorPrice;
+        uint256 priceDecayRate;
+        uint256 pausedDuration; // excluded from the Dutch price decay
+        ConfidentialAuction.Lot lot;
+        uint256 candleWindow;
+        uint256 candlePeriods;
+        bool candleDrawn;
+        uint256 candleEndTime;
+        bool isPrivate;
+        bytes32 bidderRoot;
+        bool isAnonymous;
+        bool isPaused;
+        string metadataURI;
+        bytes32 metadataHash;
+        uint256 categoryId;
+        bytes32[] tags;
+    }
+
+    enum Filter {
+        NONE,
+        CREATOR,
+        STATUS,
+        BIDDER,
+        CATEGORY
+    }
+
+    ConfidentialAuction public immutable auctionContract;
+
+    /// @param _auctionContract The auction, i.e. its proxy
+    constructor(ConfidentialAuction _auctionContract) {
+        auctionContract = _auctionContract;
+    }
+
+    /// @notice Get a page of auctions, in ID order
+    /// @param _offset ID of the first auction
+    /// @param _limit Maximum number of auctions returned
+    function getAuctionsPage(uint256 _offset, uint256 _limit) external view returns (AuctionSummary[] memory) {
+        return _query(Filter.NONE, 0, _offset, _limit);
+    }
+
+    /// @notice Get a page of the auctions created by an address, in ID order
+    /// @param _creator Creator address
+    /// @param _offset Number of matching auctions to skip
+    /// @param _limit Maximum number of auctions returned
+    function getAuctionsByCreator(
+        address _creator,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (AuctionSummary[] memory) {
+        return _query(Filter.CREATOR, uint256(uint160(_creator)), _offset, _limit);
+    }
+
+    /// @notice Get a page of the auctions in a status, in ID order
+    /// @dev Matches the effective status, so auctions past their end time count as ended
+    /// @param _status Status to match
+    /// @param _offset Number of matching auctions to skip
+    /// @param _limit Maximum number of auctions returned
+    function getAuctionsByStatus(
+        ConfidentialAuction.AuctionStatus _status,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (AuctionSummary[] memory) {
+        return _query(Filter.STATUS, uint256(_status), _offset, _limit);
+    }
+
+    /// @notice Get a page of the auctions an address bid in, in ID order
+    /// @dev Anonymous bids are keyed by pseudonym, so they only show up for the pseudonym
+    /// @param _bidder Bidder address
+    /// @param _offset Number of matching auctions to skip
+    /// @param _limit Maximum number of auctions returned
+    function getAuctionsBidOnBy(
+        address _bidder,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (AuctionSummary[] memory) {
+        return _query(Filter.BIDDER, uint256(uint160(_bidder)), _offset, _limit);
+    }
+
+    /// @notice Get a page of the auctions filed under a category, in ID order
+    /// @param _categoryId Category ID, or zero for uncategorized auctions
+    /// @param _offset Number of matching auctions to skip
+    /// @param _limit Maximum number of auctions returned
+    function getAuctionsByCategory(
+        uint256 _categoryId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (AuctionSummary[] memory) {
+        return _query(Filter.CATEGORY, _categoryId, _offset, _limit);
+    }
+
+    /// @notice Get the whole category registry; the category with ID `i` is at index `i - 1`
+    function getCategories() external view returns (ConfidentialAuction.Category[] memory categories) {
+        categories = new ConfidentialAuction.Category[](auctionContract.categoryCount());
+        for (uint256 i = 0; i < categories.length; i++) {
+            (categories[i].name, categories[i].retired) = auctionContract.categories(i + 1);
+        }
+    }
+
+    /// @notice Scan the auctions in ID order, skipping `_offset` matches and summarizing up to `_limit` more
+    function _query(
+        Filter _filter,
+        uint256 _key,
+        uint256 _offset,
+        uint256 _limit
+    ) internal view returns (AuctionSummary[] memory page) {
+        uint256 total = auctionContract.getTotalAuctions();
+        uint256[] memory ids = new uint256[](_limit < total ? _limit : total);
+        uint256 count = 0;
+
+        for (uint256 i = 0; i < total && count < ids.length; i++) {
+            if (!_matches(i, _filter, _key)) continue;
+            if (_offset > 0) {
+                _offset--;
+                continue;
+            }
+            ids[count++] = i;
+        }
+
+        page = new AuctionSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = _summarize(ids[i]);
+        }
+    }
+
+    function _matches(uint256 _auctionId, Filter _filter, uint256 _key) internal view returns (bool) {
+        if (_filter == Filter.CREATOR) {
+            (, , , address creator, , , , , , , , ) = auctionContract.getAuctionInfo(_auctionId);
+            return creator == address(uint160(_key));
+        }
+        if (_filter == Filter.STATUS) {
+            return uint256(auctionContract.getEffectiveStatus(_auctionId)) == _key;
+        }
+        if (_filter == Filter.BIDDER) {
+            return auctionContract.hasBidder(_auctionId, address(uint160(_key)));
+        }
+        if (_filter == Filter.CATEGORY) {
+            (uint256 categoryId, ) = auctionContract.getAuctionCategory(_auctionId);
+            return categoryId == _key;
+        }
+        return true;
+    }
+
+    function _summarize(uint256 _auctionId) internal view returns (AuctionSummary memory summary) {
+        ConfidentialAuction auction = auctionContract;
+        summary.id = _auctionId;
+        (
+            summary.title,
+            summary.description,
+            summary.itemImageUrl,
+            summary.creator,
+            summary.auctionType,
+            summary.status,
+            summary.startTime,
+            summary.endTime,
+            summary.minimumBidIncrement,
+            summary.totalBids,
+            summary.hasReservePrice,
+            summary.totalUnits
+        ) = auction.getAuctionInfo(_auctionId);
+        summary.effectiveStatus = auction.getEffectiveStatus(_auctionId);
+        (
+            summary.extensionPolicy.threshold,
+            summary.extensionPolicy.extensionTime,
+            summary.extensionPolicy.maxExtensions,
+            summary.extensionCount
+        ) = auction.getExtensionPolicy(_auctionId);
+        summary.paymentToken = auction.getPaymentToken(_auctionId);
+        (summary.startPrice, summary.floorPrice, summary.priceDecayRate, summary.pausedDuration) = auction
+            .getDutchPricing(_auctionId);
+        (
+            summary.lot.standard,
+            summary.lot.token,
+            summary.lot.tokenId,
+            summary.lot.amount,
+            summary.lot.claimed
+        ) = auction.getLot(_auctionId);
+        (summary.candleWindow, summary.candlePeriods, summary.candleDrawn, summary.candleEndTime) = auction
+            .getCandleEnding(_auctionId);
+        (summary.isPrivate, summary.bidderRoot) = auction.getAllowlist(_auctionId);
+        summary.isAnonymous = auction.isAnonymousAuction(_auctionId);
+        summary.isPaused = auction.isAuctionPaused(_auctionId);
+        (summary.metadataURI, summary.metadataHash) = auction.getMetadataURI(_auctionId);
+        (summary.categoryId, summary.tags) = auction.getAuctionCategory(_auctionId);
+    }
+}
@@ -0,0 +1,465 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import {IERC1155} from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+import {ConfidentialAuction} from "./ConfidentialAuction.sol";
+import {AuctionMultiUnit} from "./AuctionMultiUnit.sol";
+
+/// @title AuctionSettlement - Closing, result reveal, payouts, refunds and lot delivery for ConfidentialAuction
+/// @notice Linked library, called through DELEGATECALL like `AuctionBidding`, so funds and escrowed items
+///         never leave the auction contract's custody until they are paid out here. The decryption oracle
+///         still calls back the auction contract, which hands the cleartexts over to this library.
+library AuctionSettlement {
+    /// @notice End a running auction early (only its creator or an admin)
+    function end(ConfidentialAuction.Auction storage auction, uint256 _auctionId, bool _isAdmin) external {
+        require(msg.sender == auction.creator || _isAdmin, "Not authorized");
+        require(auction.status <= ConfidentialAuction.AuctionStatus.EXTENDED, "Auction not active");
+
+        auction.status = ConfidentialAuction.AuctionStatus.ENDED;
+        emit ConfidentialAuction.AuctionEnded(_auctionId, address(0), 0); // Winner and amount are revealed later
+    }
+
+    /// @notice Move a running auction whose end time has passed to ENDED
+    function finalize(ConfidentialAuction.Auction storage auction, uint256 _auctionId) external {
+        require(auction.status <= ConfidentialAuction.AuctionStatus.EXTENDED, "Auction not active");
+        require(block.timestamp > auction.endTime, "Auction not over");
+
+        auction.status = ConfidentialAuction.AuctionStatus.ENDED;
+        emit ConfidentialAuction.AuctionEnded(_auctionId, address(0), 0); // Winner and amount are revealed later
+    }
+
+    /// @notice Cancel an auction nobody bid in (only its creator or an admin)
+    function cancel(ConfidentialAuction.Auction storage auction, uint256 _auctionId, bool _isAdmin) external {
+        require(msg.sender == auction.creator || _isAdmin, "Not authorized");
+        require(auction.totalBids == 0, "Cannot cancel auction with bids");
+        require(auction.status <= ConfidentialAuction.AuctionStatus.EXTENDED, "Auction not active");
+
+        auction.status = ConfidentialAuction.AuctionStatus.CANCELLED;
+        emit ConfidentialAuction.AuctionCancelled(_auctionId);
+    }
+
+    /// @notice Request public decryption of the results, for the creator or an admin once bidding is over
+    function requestReveal(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId,
+        bool _isAdmin
+    ) external {
+        require(
+            auction.status == ConfidentialAuction.AuctionStatus.ENDED || block.timestamp > auction.endTime,
+            "Auction not finished"
+        );
+        require(msg.sender == auction.creator || _isAdmin, "Not authorized");
+        require(!auction.revealRequested, "Results already requested");
+        require(auction.candlePeriods == 0 || auction.candleDrawn, "Candle end not drawn");
+
+        auction.revealRequested = true;
+
+        if (auction.hasReservePrice) {
+            // Only the reserve check is decrypted first, so a missed reserve publishes no bid to bound it with
+            bytes32[] memory reserveCts = new bytes32[](1);
+            reserveCts[0] = FHE.toBytes32(_computeReserveMet(auction));
+            uint256 reserveRequestId = FHE.requestDecryption(reserveCts, ConfidentialAuction.revealCallback.selector);
+            _requests[reserveRequestId] = _auctionId;
+            emit ConfidentialAuction.ResultsRevealRequested(_auctionId, reserveRequestId);
+            return;
+        }
+
+        _requestReveal(auction, _requests, _auctionId);
+    }
+
+    /// @notice Store the revealed results and announce the winner. For reserve auctions this first receives
+    ///         the reserve check alone: a met reserve requests the results, a missed one fails the auction.
+    function completeReveal(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId,
+        bytes memory _cleartexts
+    ) external {
+        require(!auction.revealed, "Results already revealed");
+
+        if (auction.hasReservePrice && !auction.revealedReserveMet) {
+            if (abi.decode(_cleartexts, (bool))) {
+                auction.revealedReserveMet = true;
+                _requestReveal(auction, _requests, _auctionId);
+                return;
+            }
+
+            // Nobody wins
+            auction.revealed = true;
+            emit ConfidentialAuction.AuctionEnded(_auctionId, address(0), 0);
+            if (!auction.settled) {
+                _fail(auction, _auctionId);
+            }
+            return;
+        }
+
+        uint64 winningBid;
+        address winner;
+        if (auction.auctionType == ConfidentialAuction.AuctionType.MULTI_UNIT_UNIFORM) {
+            (winningBid, auction.unitsSold) = abi.decode(_cleartexts, (uint64, uint256));
+        } else if (auction.candlePeriods > 0) {
+            uint256 closingPeriod;
+            (winningBid, winner, closingPeriod) = abi.decode(_cleartexts, (uint64, address, uint256));
+            auction.candleEndTime =
+                auction.endTime -
+                auction.candleWindow +
+                ((closingPeriod + 1) * auction.candleWindow) / auction.candlePeriods;
+        } else {
+            (winningBid, winner) = abi.decode(_cleartexts, (uint64, address));
+        }
+
+        auction.revealed = true;
+        auction.revealedWinner = winner;
+        auction.revealedWinningBid = winningBid;
+        auction.revealedReserveMet = true;
+
+        emit ConfidentialAuction.AuctionEnded(_auctionId, winner, winningBid);
+    }
+
+    /// @notice Start settlement once the auction is over; reserve auctions decrypt only the reserve check first
+    function requestSettlement(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId
+    ) external {
+        require(auction.status != ConfidentialAuction.AuctionStatus.CANCELLED, "Auction cancelled");
+        require(
+            auction.status == ConfidentialAuction.AuctionStatus.ENDED || block.timestamp > auction.endTime,
+            "Auction not finished"
+        );
+        require(!auction.settlementRequested, "Settlement already requested");
+        require(!auction.settled, "Auction already settled"); // failed on reveal
+        require(auction.candlePeriods == 0 || auction.candleDrawn, "Candle end not drawn");
+
+        auction.settlementRequested = true;
+
+        if (auction.hasReservePrice) {
+            // Only the reserve check is decrypted first; the winner is revealed once it passed
+            bytes32[] memory reserveCts = new bytes32[](1);
+            reserveCts[0] = FHE.toBytes32(_computeReserveMet(auction));
+            uint256 reserveRequestId = FHE.requestDecryption(reserveCts, ConfidentialAuction.reserveCallback.selector);
+            _requests[reserveRequestId] = _auctionId;
+            emit ConfidentialAuction.SettlementRequested(_auctionId, reserveRequestId);
+            return;
+        }
+
+        _requestSettlement(auction, _requests, _auctionId);
+    }
+
+    /// @notice Fail the auction if the reserve was missed, otherwise request the winner and clearing price
+    function completeReserveCheck(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId,
+        bytes memory _cleartexts
+    ) external {
+        require(!auction.settled, "Auction already settled");
+
+        bool reserveMet = abi.decode(_cleartexts, (bool));
+        emit ConfidentialAuction.ReservePriceSet(_auctionId, reserveMet);
+
+        if (reserveMet) {
+            _requestSettlement(auction, _requests, _auctionId);
+            return;
+        }
+
+        _fail(auction, _auctionId);
+    }
+
+    /// @notice Record the decrypted winner and clearing price and pay out
+    function completeSettlement(
+        ConfidentialAuction.Auction storage auction,
+        mapping(address => uint256) storage pendingWithdrawals,
+        ConfidentialAuction.FeeBalance storage fees,
+        address _treasury,
+        uint256 _auctionId,
+        bytes memory _cleartexts
+    ) external {
+        require(!auction.settled, "Auction already settled");
+
+        uint64 winningBid;
+        address winner;
+        if (auction.auctionType == ConfidentialAuction.AuctionType.MULTI_UNIT_UNIFORM) {
+            (winningBid, auction.unitsSold) = abi.decode(_cleartexts, (uint64, uint256));
+        } else {
+            (winningBid, winner) = abi.decode(_cleartexts, (uint64, address));
+        }
+        auction.settled = true;
+        auction.winner = winner;
+        auction.winningBid = winningBid;
+
+        uint256 platformFee = _payout(auction, pendingWithdrawals, fees, _treasury);
+        if (platformFee > 0) {
+            emit ConfidentialAuction.FeeCollected(_auctionId, address(auction.paymentToken), platformFee);
+        }
+
+        emit ConfidentialAuction.AuctionSettled(_auctionId, winner, winningBid, platformFee);
+    }
+
+    /// @notice Encrypted price the winner pays: the second-highest bid for second-price sealed bids (raised to
+    ///         the reserve or opening bid once bidding is over), the unit clearing price for multi-unit auctions,
+    ///         else the highest bid
+    function clearingPrice(ConfidentialAuction.Auction storage auction) public view returns (euint64) {
+        if (auction.auctionType == ConfidentialAuction.AuctionType.MULTI_UNIT_UNIFORM) {
+            return auction.encryptedUnitClearingPrice;
+        }
+        return
+            auction.auctionType == ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE
+                ? auction.encryptedSecondHighestBid
+                : auction.encryptedHighestBid;
+    }
+
+    /// @notice Request public decryption of the clearing price and the winner, or the units sold of a multi-unit
+    ///         auction. Candle auctions also publish the period the candle went out in.
+    function _requestReveal(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId
+    ) internal {
+        uint256 length = auction.candlePeriods > 0 ? 3 : 2;
+        bytes32[] memory cts = _resultHandles(auction, length);
+        if (auction.candlePeriods > 0) {
+            cts[2] = FHE.toBytes32(auction.encryptedCandlePeriod);
+        }
+        uint256 requestId = FHE.requestDecryption(cts, ConfidentialAuction.revealCallback.selector);
+        _requests[requestId] = _auctionId;
+
+        emit ConfidentialAuction.ResultsRevealRequested(_auctionId, requestId);
+    }
+
+    /// @notice Settle an auction that missed its reserve: nobody wins, and every bidder withdraws their full
+    ///         deposit or escrow
+    function _fail(ConfidentialAuction.Auction storage auction, uint256 _auctionId) internal {
+        auction.status = ConfidentialAuction.AuctionStatus.FAILED;
+        auction.settled = true;
+        emit ConfidentialAuction.AuctionSettled(_auctionId, address(0), 0, 0);
+    }
+
+    /// @notice Request decryption of the clearing price and winner
+    function _requestSettlement(
+        ConfidentialAuction.Auction storage auction,
+        mapping(uint256 => uint256) storage _requests,
+        uint256 _auctionId
+    ) internal {
+        bytes32[] memory cts = _resultHandles(auction, 2);
+        uint256 requestId = FHE.requestDecryption(cts, ConfidentialAuction.settlementCallback.selector);
+        _requests[requestId] = _auctionId;
+
+        emit ConfidentialAuction.SettlementRequested(_auctionId, requestId);
+    }
+
+    /// @notice Handles to decrypt for the results: the clearing price, then the winner, or the units sold
+    ///         of a multi-unit auction. Extra entries are left for the caller to fill.
+    function _resultHandles(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _length
+    ) internal returns (bytes32[] memory cts) {
+        cts = new bytes32[](_length);
+        if (auction.auctionType == ConfidentialAuction.AuctionType.MULTI_UNIT_UNIFORM) {
+            AuctionMultiUnit.allocate(auction);
+            cts[1] = FHE.toBytes32(auction.encryptedUnitsSold);
+        } else {
+            if (auction.auctionType == ConfidentialAuction.AuctionType.SEALED_BID_SECOND_PRICE) {
+                _applyPriceFloor(auction);
+            }
+            cts[1] = FHE.toBytes32(auction.encryptedHighestBidder);
+        }
+        cts[0] = FHE.toBytes32(clearingPrice(auction));
+    }
+
+    /// @notice Raise the second-price clearing price to the reserve, or to the opening bid without one, so a lone
+    ///         bidder does not win for free; it never exceeds the winning bid
+    /// @dev Idempotent, as the reveal and the settlement both go through it
+    function _applyPriceFloor(ConfidentialAuction.Auction storage auction) internal {
+        euint64 floor = auction.hasReservePrice
+            ? auction.encryptedReservePrice
+            : FHE.asEuint64(uint64(auction.minimumBidIncrement));
+        euint64 price = FHE.min(FHE.max(auction.encryptedSecondHighestBid, floor), auction.encryptedHighestBid);
+        auction.encryptedSecondHighestBid = price;
+        FHE.allowThis(price);
+        FHE.allow(price, auction.creator);
+    }
+
+    /// @notice Compare the highest bid with the hidden reserve and make only the result publicly decryptable
+    function _computeReserveMet(ConfidentialAuction.Auction storage auction) internal returns (ebool) {
+        if (!FHE.isInitialized(auction.encryptedReserveMet)) {
+            auction.encryptedReserveMet = FHE.ge(auction.encryptedHighestBid, auction.encryptedReservePrice);
+            FHE.allowThis(auction.encryptedReserveMet);
+            FHE.allow(auction.encryptedReserveMet, auction.creator);
+            FHE.makePubliclyDecryptable(auction.encryptedReserveMet);
+        }
+        return auction.encryptedReserveMet;
+    }
+
+    /// @notice Pay the creator from the winner's deposit or token escrow, minus the platform fee
+    /// @dev The confidential coverage check on every bid guarantees the escrow holds the winning bid.
+    ///      The fee uses the auction's own snapshot of the platform fee.
+    /// @return platformFee Fee kept by the contract until `withdrawFees`; `_treasury` can decrypt token fees
+    function _payout(
+        ConfidentialAuction.Auction storage auction,
+        mapping(address => uint256) storage pendingWithdrawals,
+        ConfidentialAuction.FeeBalance storage fees,
+        address _treasury
+    ) internal returns (uint256 platformFee) {
+        if (auction.auctionType == ConfidentialAuction.AuctionType.MULTI_UNIT_UNIFORM) {
+            // Every winner pays the clearing price per unit, deducted from their deposit when they withdraw
+            uint256 proceeds = auction.winningBid * auction.unitsSold;
+            platformFee = (proceeds * auction.feePercent) / 10000;
+            pendingWithdrawals[auction.creator] += proceeds - platformFee;
+            fees.accrued += platformFee;
+            return platformFee;
+        }
+
+        address winner = auction.winner;
+        uint64 winningBid = uint64(auction.winningBid);
+        if (winner == address(0)) {
+            return 0;
+        }
+
+        platformFee = (uint256(winningBid) * auction.feePercent) / 10000;
+        if (address(auction.paymentToken) == address(0)) {
+            auction.deposits[winner] -= winningBid;
+            pendingWithdrawals[auction.creator] += winningBid - platformFee;
+            fees.accrued += platformFee;
+        } else {
+            euint64 remaining = FHE.sub(auction.encryptedEscrow[winner], winningBid);
+            auction.encryptedEscrow[winner] = remaining;
+            FHE.allowThis(remaining);
+            FHE.allow(remaining, winner);
+            _transferToken(auction.paymentToken, auction.creator, winningBid - platformFee);
+
+            // Token fees add up encrypted, so the balance the treasury holds in each token stays private
+            euint64 accrued = FHE.add(fees.encryptedAccrued[address(auction.paymentToken)], uint64(platformFee));
+            fees.encryptedAccrued[address(auction.paymentToken)] = accrued;
+            FHE.allowThis(accrued);
+            FHE.allow(accrued, _treasury);
+        }
+    }
+
+    /// @notice Pay out the caller's accumulated sale proceeds
+    function withdrawProceeds(mapping(address => uint256) storage _pendingWithdrawals) external {
+        uint256 amount = _pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        _pendingWithdrawals[msg.sender] = 0;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit ConfidentialAuction.ProceedsWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Send the fees accrued in ETH, or the encrypted fees accrued in a confidential token, to the treasury
+    function withdrawFees(ConfidentialAuction.FeeBalance storage fees, address _token, address _treasury) external {
+        require(_treasury != address(0), "Treasury not set");
+
+        if (_token != address(0)) {
+            euint64 accrued = fees.encryptedAccrued[_token];
+            require(FHE.isInitialized(accrued), "Nothing to withdraw");
+            fees.encryptedAccrued[_token] = euint64.wrap(bytes32(0));
+
+            FHE.allowTransient(accrued, _token);
+            IConfidentialToken(_token).confidentialTransfer(_treasury, accrued);
+
+            emit ConfidentialAuction.FeesWithdrawn(_token, _treasury, 0);
+            return;
+        }
+
+        uint256 amount = fees.accrued;
+        require(amount > 0, "Nothing to withdraw");
+        fees.accrued = 0;
+
+        (bool success, ) = payable(_treasury).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit ConfidentialAuction.FeesWithdrawn(address(0), _treasury, amount);
+    }
+
+    /// @notice Return the bidder's remaining deposit or token escrow once the auction is settled or cancelled
+    /// @dev `_bidder` is the caller, or the pseudonym of an anonymous bid, which is paid out to `_recipient`
+    function refund(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        address _bidder,
+        address _recipient
+    ) external {
+        require(
+            auction.settled || auction.status == ConfidentialAuction.AuctionStatus.CANCELLED,
+            "Auction not settled"
+        );
+
+        if (address(auction.paymentToken) != address(0)) {
+            euint64 escrowed = auction.encryptedEscrow[_bidder];
+            require(FHE.isInitialized(escrowed), "Nothing to withdraw");
+            auction.encryptedEscrow[_bidder] = euint64.wrap(bytes32(0));
+
+            FHE.allowTransient(escrowed, address(auction.paymentToken));
+            auction.paymentToken.confidentialTransfer(_recipient, escrowed);
+
+            emit ConfidentialAuction.EscrowRefunded(_auctionId, _bidder);
+            return;
+        }
+
+        uint256 amount = auction.deposits[_bidder];
+        require(amount > 0, "Nothing to withdraw");
+        auction.deposits[_bidder] = 0;
+
+        (bool success, ) = payable(_recipient).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit ConfidentialAuction.DepositWithdrawn(_auctionId, _bidder, amount);
+    }
+
+    /// @notice Pull the lot from the creator into the contract's custody
+    /// @dev The creator must have approved the auction contract for the token
+    function escrowLot(
+        ConfidentialAuction.Auction storage auction,
+        uint256 _auctionId,
+        ConfidentialAuction.LotStandard _standard,
+        address _token,
+        uint256 _tokenId,
+        uint256 _amount
+    ) external {
+        auction.lot = ConfidentialAuction.Lot(_standard, _token, _tokenId, _amount, false);
+        if (_standard == ConfidentialAuction.LotStandard.ERC721) {
+            IERC721(_token).transferFrom(msg.sender, address(this), _tokenId);
+        } else {
+            IERC1155(_token).safeTransferFrom(msg.sender, address(this), _tokenId, _amount, "");
+        }
+
+        emit ConfidentialAuction.LotEscrowed(_auctionId, _token, _tokenId, _amount);
+    }
+
+    /// @notice Send the escrowed lot to the winner, or back to the creator when nobody won
+    /// @dev Cancelled, failed and bidless auctions all leave `winner` at the zero address. ERC-721 lots go out with
+    ///      `transferFrom`, like they came in, so a winning contract without `onERC721Received` still gets its lot.
+    function deliverLot(ConfidentialAuction.Auction storage auction, uint256 _auctionId) external {
+        ConfidentialAuction.Lot storage lot = auction.lot;
+        require(lot.standard != ConfidentialAuction.LotStandard.NONE, "No escrowed lot");
+        require(!lot.claimed, "Lot already claimed");
+        require(
+            auction.settled || auction.status == ConfidentialAuction.AuctionStatus.CANCELLED,
+            "Auction not settled"
+        );
+
+        lot.claimed = true;
+        address recipient = auction.winner != address(0) ? auction.winner : auction.creator;
+        if (lot.standard == ConfidentialAuction.LotStandard.ERC721) {
+            IERC721(lot.token).transferFrom(address(this), recipient, lot.tokenId);
+        } else {
+            IERC1155(lot.token).safeTransferFrom(address(this), recipient, lot.tokenId, lot.amount, "");
+        }
+
+        emit ConfidentialAuction.LotClaimed(_auctionId, recipient);
+    }
+
+    /// @notice Send a cleartext token amount held by the contract
+    function _transferToken(IConfidentialToken _token, address _to, uint256 _amount) internal {
+        euint64 amount = FHE.asEuint64(uint64(_amount));
+        FHE.allowTransient(amount, address(_token));
+        _token.confidentialTransfer(_to, amount);
+    }
+}
@@ -1,13 +1,36 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint8, euint32, euint64, ebool, externalEuint32, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {
+    FHE,
+    euint8,
+    euint32,
+    euint64,
+    ebool,
+    eaddress,
+    externalEuint32,
+    externalEuint64
+} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig, ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ERC1155Holder} from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+import {AuctionBidding} from "./AuctionBidding.sol";
+import {AuctionSettlement} from "./AuctionSettlement.sol";
+import {AuctionMultiUnit} from "./AuctionMultiUnit.sol";
+import {AuctionCreation} from "./AuctionCreation.sol";
+import {AccessRoles} from "./AccessRoles.sol";
 
 /// @title ConfidentialAuction - Privacy-Preserving Auction System using FHEVM
 /// @author ConfidentialAuction Team
 /// @notice A confidential auction system where bids are encrypted and anonymous until reveal
-contract ConfidentialAuction is SepoliaConfig {
+/// @dev Roles: admins manage the other roles and can end, cancel and reveal any auction; auctioneers create
+///      auctions; fee managers set the platform fee; pausers pause bidding. The owner holds every role.
+///      Deployed behind a transparent proxy, so encrypted handles and their ACL permissions, which belong to the
+///      proxy address, survive upgrades. New state variables, and new `Auction` fields, only ever go at the end.
+///      Bids are encrypted as euint64 amounts in wei, so a bidder's total ETH deposit in an auction is capped at
+///      `type(uint64).max` wei, about 18.45 ETH; a payment that takes it past the cap reverts with "Deposit too large".
+contract ConfidentialAuction is SepoliaConfig, ERC1155Holder, AccessRoles, Initializable {
     using FHE for euint32;
     using FHE for euint64;
     using FHE for ebool;
@@ -17,7 +40,15 @@ contract ConfidentialAuction is SepoliaConfig {
         ENGLISH,    // Traditional ascending price auction
         DUTCH,      // Descending price auction
         SEALED_BID, // Single round sealed bid
-        RESERVE     // Auction with reserve price
+        RESERVE,    // Auction with reserve price
+        SEALED_BID_SECOND_PRICE, // Sealed bid where the winner pays the second-highest bid
+        MULTI_UNIT_UNIFORM // Identical units sold to the highest bids at one clearing price
+    }
+
+    enum LotStandard {
+        NONE,       // No escrowed item, the lot is described off-chain
+        ERC721,
+        ERC1155
     }
 
     enum AuctionStatus {
@@ -25,7 +56,8 @@ contract ConfidentialAuction is SepoliaConfig {
         ACTIVE,     // Currently accepting bids
         EXTENDED,   // Time extended due to last-minute bids
         ENDED,      // Auction finished
-        CANCELLED   // Auction cancelled
+        CANCELLED,  // Auction cancelled
+        FAILED      // Finished without meeting the reserve price
     }
 
     // Events
@@ -39,10 +71,45 @@ contract ConfidentialAuction is SepoliaConfig {
     );
     event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 timestamp);
     event AutoBidSet(uint256 indexed auctionId, address indexed bidder);
-    event AuctionExtended(uint256 indexed auctionId, uint256 newEndTime);
+    event AuctionExtended(uint256 indexed auctionId, uint256 newEndTime, uint256 extensionCount);
     event AuctionEnded(uint256 indexed auctionId, address winner, uint256 winningBid);
     event AuctionCancelled(uint256 indexed auctionId);
     event ReservePriceSet(uint256 indexed auctionId, bool reserveMet);
+    event DepositLocked(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+    event SettlementRequested(uint256 indexed auctionId, uint256 requestId);
+    event ResultsRevealRequested(uint256 indexed auctionId, uint256 requestId);
+    event AuctionSettled(uint256 indexed auctionId, address winner, uint256 winningBid, uint256 platformFee);
+    event DepositWithdrawn(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+    event ProceedsWithdrawn(address indexed account, uint256 amount);
+    event PaymentTokenSet(uint256 indexed auctionId, address indexed token);
+    event EscrowRefunded(uint256 indexed auctionId, address indexed bidder);
+    event DutchPricingSet(uint256 indexed auctionId, uint256 startPrice, uint256 floorPrice, uint256 priceDecayRate);
+    event PriceAcceptanceRequested(uint256 indexed auctionId, address indexed bidder, uint256 price, uint256 requestId);
+    event BidRevised(uint256 indexed auctionId, address indexed bidder, uint256 timestamp);
+    event BidWithdrawn(uint256 indexed auctionId, address indexed bidder, uint256 timestamp);
+    event HighestBidRecomputed(uint256 indexed auctionId);
+    event LotEscrowed(uint256 indexed auctionId, address indexed token, uint256 tokenId, uint256 amount);
+    event LotClaimed(uint256 indexed auctionId, address indexed recipient);
+    event UnitSupplySet(uint256 indexed auctionId, uint256 units);
+    event UnitRefundRequested(uint256 indexed auctionId, address indexed bidder, uint256 requestId);
+    event CandleEndingSet(uint256 indexed auctionId, uint256 window, uint256 periods);
+    event CandleEndDrawn(uint256 indexed auctionId);
+    event AllowlistSet(uint256 indexed auctionId, bytes32 merkleRoot);
+    event AllowlistUpdated(uint256 indexed auctionId, address indexed bidder, bool allowed);
+    event AnonymousBiddingEnabled(uint256 indexed auctionId);
+    event Paused(address indexed account);
+    event Unpaused(address indexed account);
+    event AuctionPaused(uint256 indexed auctionId);
+    event AuctionUnpaused(uint256 indexed auctionId, uint256 newEndTime);
+    event AuctionMetadataUpdated(uint256 indexed auctionId, string title);
+    event AuctionRescheduled(uint256 indexed auctionId, uint256 startTime, uint256 endTime);
+    event MetadataURISet(uint256 indexed auctionId, string metadataURI, bytes32 metadataHash);
+    event CategoryAdded(uint256 indexed categoryId, string name);
+    event CategoryRetired(uint256 indexed categoryId);
+    event AuctionCategorized(uint256 indexed auctionId, uint256 indexed categoryId, bytes32[] tags);
+    event FeeCollected(uint256 indexed auctionId, address indexed token, uint256 amount);
+    event TreasuryUpdated(address indexed treasury);
+    event FeesWithdrawn(address indexed token, address indexed treasury, uint256 amount);
 
     // Structs
     struct Auction {
@@ -55,18 +122,122 @@ contract ConfidentialAuction is SepoliaConfig {
         uint256 startTime;
         uint256 endTime;
         uint256 extensionTime; // Time to extend if bid in last minutes
+        uint256 extensionThreshold; // a bid this close to the end extends the auction
+        uint256 maxExtensions;
+        uint256 extensionCount;
         uint256 minimumBidIncrement;
         uint256 totalBids;
         bool hasReservePrice;
         euint64 encryptedReservePrice;
+        ebool encryptedReserveMet; // computed once the auction is over
         euint64 encryptedHighestBid;
-        address currentHighestBidder;
+        eaddress encryptedHighestBidder; // leading bidder, selected alongside the highest bid
+        euint64 encryptedSecondHighestBid; // clearing price of second-price sealed bids
         mapping(address => euint64) encryptedBids; // bidder => encrypted bid amount
+        mapping(address => euint64[]) bidHistory; // bidder => every bid they submitted, decryptable by them alone
+        mapping(address => ebool) lastBidAccepted; // bidder => whether their latest bid was valid
         mapping(address => bool) hasBid;
         mapping(address => euint64) encryptedMaxAutoBid; // for auto-bidding
         mapping(address => bool) hasAutoBid;
+        address[] autoBidders; // capped at MAX_AUTO_BIDDERS to bound the proxy bidding loop
         mapping(address => uint256) bidTimestamps;
         address[] bidders;
+        // Sealed-bid revisions recompute the leader over `bidders` in batches
+        bool recomputePending;
+        uint256 recomputeCursor;
+        // Escrow
+        mapping(address => uint256) deposits; // bidder => locked collateral in wei
+        bool settlementRequested;
+        bool settled;
+        address winner; // cleartext winner, known once settled
+        uint256 winningBid; // cleartext winning bid, known once settled
+        IConfidentialToken paymentToken; // zero address for ETH deposits
+        mapping(address => euint64) encryptedEscrow; // bidder => tokens held by the contract
+        // Dutch price schedule
+        uint256 startPrice;
+        uint256 floorPrice;
+        uint256 priceDecayRate; // wei per second after startTime
+        Lot lot; // escrowed NFT delivered on settlement
+        // Multi-unit uniform-price auctions
+        uint256 totalUnits;
+        uint256 unitsSold; // cleartext, known once revealed or settled
+        euint64[] unitPrices; // top-N bids by unit price, highest first
+        euint64[] unitQuantities;
+        eaddress[] unitBidders;
+        euint64[] unitAllocations; // units won by each top-N slot, computed once bidding is over
+        bool unitsAllocated;
+        euint64 encryptedUnitClearingPrice;
+        euint64 encryptedUnitsSold;
+        mapping(address => euint64) encryptedUnitBids; // bidder => quantity; the unit price is in encryptedBids
+        mapping(address => euint64) encryptedAllocations; // bidder => units won, decryptable by them alone
+        mapping(address => bool) refundRequested;
+        mapping(uint256 => address) refundRequests; // decryption request ID => bidder
+        // Candle ending: the close is drawn at random among the periods of the window before `endTime`
+        uint256 candleWindow;
+        uint256 candlePeriods; // zero unless the auction has a candle ending
+        euint64[] candleBids; // highest bid at the close of each period
+        eaddress[] candleBidders;
+        bool candleDrawn;
+        euint64 encryptedCandlePeriod; // index of the period the candle went out in
+        uint256 candleEndTime; // cleartext close, known once revealed
+        // Private auctions only take bids from allowlisted addresses
+        bool isPrivate;
+        bytes32 bidderRoot; // Merkle root bidders can prove membership of, zero for explicit addresses only
+        mapping(address => bool) allowedBidders;
+        mapping(address => bool) removedBidders;
+        // Anonymous auctions key bids by commitment pseudonyms instead of addresses, see `placeAnonymousBid`
+        bool anonymousBids;
+        // Emergency pauses freeze the schedule, see `_currentSchedule`
+        uint256 pausedAt; // zero unless the auction itself is paused
+        uint256 pauseCursor; // global pauses before this index are already added to the schedule
+        // Revealed results
+        bool revealRequested;
+        bool revealed;
+        address revealedWinner; // zero address when nobody bid or the reserve was missed
+        uint256 revealedWinningBid; // price the winner pays
+        bool revealedReserveMet; // always true without a reserve price
+        uint256 feePercent; // platform fee when the auction was created, in basis points
+        // Optional off-chain listing, a JSON document that clients check against its keccak256 hash
+        string metadataURI;
+        bytes32 metadataHash;
+        // Classification, see `setAuctionCategory`
+        uint256 categoryId; // zero when uncategorized
+        bytes32[] tags;
+        uint256 pausedDuration; // time paused since the auction started, which the Dutch price does not decay over
+    }
+
+    struct Lot {
+        LotStandard standard;
+        address token;
+        uint256 tokenId;
+        uint256 amount; // always 1 for ERC-721
+        bool claimed;
+    }
+
+    /// @notice Anti-sniping policy: a bid within `threshold` seconds of the end extends the auction by
+    ///         `extensionTime`, at most `maxExtensions` times. A zero `extensionTime` disables extensions.
+    struct ExtensionPolicy {
+        uint256 threshold;
+        uint256 extensionTime;
+        uint256 maxExtensions;
+    }
+
+    /// @notice Platform fees held by the contract until `withdrawFees` sends them to the treasury
+    struct FeeBalance {
+        uint256 accrued; // in ETH
+        mapping(address => euint64) encryptedAccrued; // confidential token => fees held in it
+    }
+
+    /// @notice An entry of the owner-curated category registry
+    struct Category {
+        string name;
+        bool retired; // takes no new auctions, but stays readable for the ones already filed under it
+    }
+
+    /// @notice A global pause; `end` is zero while it lasts
+    struct PausePeriod {
+        uint256 start;
+        uint256 end;
     }
 
     struct BidInfo {
@@ -77,62 +248,186 @@ contract ConfidentialAuction is SepoliaConfig {
 
     // State variables
     uint256 public auctionCounter;
-    mapping(uint256 => Auction) public auctions;
-    mapping(address => bool) public auctioneers; // Authorized auction creators
-    address public owner;
-    uint256 public platformFeePercent = 250; // 2.5% platform fee (basis points)
-    uint256 public constant EXTENSION_THRESHOLD = 300; // 5 minutes in seconds
+    mapping(uint256 => Auction) internal auctions; // read through the getters below, see `getAuctionInfo`
+    uint256 public platformFeePercent; // basis points, 2.5% once initialized
+    bytes32 public constant AUCTIONEER_ROLE = keccak256("AUCTIONEER_ROLE");
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    uint256 public constant MAX_TOTAL_EXTENSION = 7 days; // per auction, across all its extensions
+    uint256 public constant MAX_AUTO_BIDDERS = 5; // per auction
+    uint256 public constant MAX_RECOMPUTE_BATCH = 10; // bidders folded into the highest bid per transaction
+    uint256 public constant MAX_UNITS = 10; // per multi-unit auction, bounding the top-N list
+    uint256 public constant MAX_CANDLE_PERIODS = 12; // per candle auction, bounding the snapshots
+    uint256 public constant MAX_TAGS = 5; // per auction
+
+    // Escrow state
+    mapping(uint256 => uint256) internal settlementRequests; // decryption request ID => auction ID
+    mapping(address => uint256) public pendingWithdrawals; // creator proceeds
+    mapping(uint256 => uint256) internal acceptanceRequests; // decryption request ID => Dutch auction ID
+    mapping(uint256 => uint256) internal revealRequests; // decryption request ID => auction ID
+
+    // Circuit breaker
+    bool public paused;
+    PausePeriod[] internal pausePeriods;
+
+    // Platform fees
+    address public treasury;
+    FeeBalance internal fees;
+
+    // Category registry; IDs start at 1, so an auction's zero `categoryId` means uncategorized
+    uint256 public categoryCount;
+    mapping(uint256 => Category) public categories;
 
     // Modifiers
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can call this function");
+    modifier onlyAuctioneer() {
+        require(hasRole(AUCTIONEER_ROLE, msg.sender), "Only authorized auctioneers");
         _;
     }
 
-    modifier onlyAuctioneer() {
-        require(auctioneers[msg.sender] || msg.sender == owner, "Only authorized auctioneers");
+    modifier auctionExists(uint256 _auctionId) {
+        _requireExists(_auctionId);
         _;
     }
 
-    modifier auctionExists(uint256 _auctionId) {
-        require(_auctionId < auctionCounter, "Auction does not exist");
+    modifier whenNotPaused() {
+        require(!paused, "Contract paused");
+        _;
+    }
+
+    /// @dev Also adds the global pauses since the auction was last touched to its end time
+    modifier auctionNotPaused(uint256 _auctionId) {
+        _applyPauses(_auctionId);
         _;
     }
 
     modifier auctionActive(uint256 _auctionId) {
-        require(auctions[_auctionId].status == AuctionStatus.PENDING || 
-                auctions[_auctionId].status == AuctionStatus.ACTIVE || 
-                auctions[_auctionId].status == AuctionStatus.EXTENDED, "Auction not active");
-        require(block.timestamp >= auctions[_auctionId].startTime, "Auction not started");
-        require(block.timestamp <= auctions[_auctionId].endTime, "Auction ended");
+        _requireActive(auctions[_auctionId]);
         _;
     }
 
     modifier canBid(uint256 _auctionId) {
-        require(msg.sender != auctions[_auctionId].creator, "Creator cannot bid");
+        _requireBidder(auctions[_auctionId]);
+        _;
+    }
+
+    modifier notRecomputing(uint256 _auctionId) {
+        require(!auctions[_auctionId].recomputePending, "Highest bid recompute pending");
+        _;
+    }
+
+    modifier beforeBidding(uint256 _auctionId) {
+        _requireBeforeBidding(auctions[_auctionId]);
         _;
     }
 
+    /// @dev The implementation itself is never initialized; only proxies are
     constructor() {
-        owner = msg.sender;
-        auctioneers[msg.sender] = true;
+        _disableInitializers();
     }
 
-    /// @notice Set auctioneer status
+    /// @notice Initialize a proxy: the FHEVM configuration, the owner, the default platform fee and the treasury
+    /// @dev The configuration lives in the proxy's storage, so `SepoliaConfig`'s constructor does not cover it
+    /// @param _owner Initial owner, holding every role, and treasury
+    function initialize(address _owner) external initializer {
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        _initializeOwner(_owner);
+        platformFeePercent = 250;
+        treasury = _owner;
+    }
+
+    /// @notice Set auctioneer status (only owner; admins use `grantRole` and `revokeRole`)
     /// @param _auctioneer Address to modify
     /// @param _isAuctioneer True to authorize, false to revoke
     function setAuctioneer(address _auctioneer, bool _isAuctioneer) external onlyOwner {
-        auctioneers[_auctioneer] = _isAuctioneer;
+        _setRole(AUCTIONEER_ROLE, _auctioneer, _isAuctioneer);
+    }
+
+    /// @notice Check whether an address may create auctions
+    /// @param _account Address to check
+    function auctioneers(address _account) external view returns (bool) {
+        return hasRole(AUCTIONEER_ROLE, _account);
     }
 
-    /// @notice Set platform fee percentage
+    /// @notice Set platform fee percentage (only fee managers)
+    /// @dev Auctions keep the fee they were created with
     /// @param _feePercent Fee in basis points (100 = 1%)
-    function setPlatformFee(uint256 _feePercent) external onlyOwner {
+    function setPlatformFee(uint256 _feePercent) external onlyRole(FEE_MANAGER_ROLE) {
         require(_feePercent <= 1000, "Fee cannot exceed 10%");
         platformFeePercent = _feePercent;
     }
 
+    /// @notice Set the address `withdrawFees` sends platform fees to (only fee managers)
+    /// @param _treasury Treasury address
+    function setTreasury(address _treasury) external onlyRole(FEE_MANAGER_ROLE) {
+        require(_treasury != address(0), "Invalid treasury");
+        treasury = _treasury;
+        emit TreasuryUpdated(_treasury);
+    }
+
+    /// @notice Send the platform fees accrued in ETH, or in a confidential token, to the treasury (only fee managers)
+    /// @dev `FeesWithdrawn` reports a zero amount for token fees, which stay encrypted
+    /// @param _token Confidential token, or the zero address for ETH
+    function withdrawFees(address _token) external onlyRole(FEE_MANAGER_ROLE) {
+        AuctionSettlement.withdrawFees(fees, _token, treasury);
+    }
+
+    /// @notice Pause auction creation, bidding and everything that moves auctions towards their end
+    /// @dev Only pausers. Withdrawals and oracle callbacks keep working; end times are frozen until `unpause`.
+    function pause() external onlyRole(PAUSER_ROLE) whenNotPaused {
+        paused = true;
+        pausePeriods.push(PausePeriod(block.timestamp, 0));
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Lift a global pause; running auctions end later by the time it lasted
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        require(paused, "Contract not paused");
+        paused = false;
+        pausePeriods[pausePeriods.length - 1].end = block.timestamp;
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Pause a single auction that has not ended yet (only pausers)
+    /// @param _auctionId Auction ID
+    function pauseAuction(
+        uint256 _auctionId
+    ) external onlyRole(PAUSER_ROLE) auctionExists(_auctionId) auctionNotPaused(_auctionId) {
+        Auction storage auction = auctions[_auctionId];
+        AuctionStatus status = _effectiveStatus(auction);
+        require(status == AuctionStatus.PENDING || status == AuctionStatus.ACTIVE ||
+                status == AuctionStatus.EXTENDED, "Auction not active");
+
+        auction.pausedAt = block.timestamp;
+        emit AuctionPaused(_auctionId);
+    }
+
+    /// @notice Resume a paused auction, ending it later by the time it was paused (only pausers)
+    /// @param _auctionId Auction ID
+    function unpauseAuction(
+        uint256 _auctionId
+    ) external onlyRole(PAUSER_ROLE) auctionExists(_auctionId) whenNotPaused {
+        AuctionCreation.unpause(auctions[_auctionId], pausePeriods, _auctionId);
+    }
+
+    /// @notice Require that neither the contract nor the auction is paused, and catch up on global pauses
+    function _applyPauses(uint256 _auctionId) internal {
+        require(!paused, "Contract paused");
+        Auction storage auction = auctions[_auctionId];
+        require(auction.pausedAt == 0, "Auction paused");
+        if (auction.pauseCursor < pausePeriods.length) {
+            AuctionCreation.applyPauses(auction, pausePeriods);
+        }
+    }
+
+    /// @notice Schedule including the pauses not yet added to the stored one
+    function _currentSchedule(
+        Auction storage auction
+    ) internal view returns (uint256 startTime, uint256 endTime, uint256 pausedDuration) {
+        return AuctionCreation.pausedSchedule(auction, pausePeriods);
+    }
+
     /// @notice Create a new auction
+    /// @dev `_extension` caps how often late bids extend the auction; see `ExtensionPolicy`
     function createAuction(
         string memory _title,
         string memory _description,
@@ -141,19 +436,12 @@ contract ConfidentialAuction is SepoliaConfig {
         uint256 _startTime,
         uint256 _endTime,
         uint256 _minimumBidIncrement,
-        uint256 _extensionTime,
+        ExtensionPolicy calldata _extension,
         bool _hasReservePrice,
         externalEuint64 _encryptedReservePrice,
         bytes calldata _reserveProof
-    ) external onlyAuctioneer {
-        require(_startTime < _endTime, "Invalid time range");
-        require(_endTime > block.timestamp, "End time must be in future");
-        require(_minimumBidIncrement > 0, "Minimum bid increment must be positive");
-
-        uint256 auctionId = auctionCounter++;
-        
-        _initializeAuction(
-            auctionId,
+    ) external onlyAuctioneer whenNotPaused {
+        _createAuction(
             _title,
             _description,
             _itemImageUrl,
@@ -161,18 +449,83 @@ contract ConfidentialAuction is SepoliaConfig {
             _startTime,
             _endTime,
             _minimumBidIncrement,
-            _extensionTime,
+            _extension,
+            _hasReservePrice,
+            _encryptedReservePrice,
+            _reserveProof
+        );
+    }
+
+    /// @notice Create a new auction for an ERC-721 token, escrowed until settlement
+    /// @dev The caller must have approved this contract for the token
+    function createERC721Auction(
+        string memory _title,
+        string memory _description,
+        AuctionType _auctionType,
+        uint256 _startTime,
+        uint256 _endTime,
+        uint256 _minimumBidIncrement,
+        ExtensionPolicy calldata _extension,
+        bool _hasReservePrice,
+        externalEuint64 _encryptedReservePrice,
+        bytes calldata _reserveProof,
+        address _token,
+        uint256 _tokenId
+    ) external onlyAuctioneer whenNotPaused {
+        uint256 auctionId = _createAuction(
+            _title,
+            _description,
+            "", // the image comes from the token metadata
+            _auctionType,
+            _startTime,
+            _endTime,
+            _minimumBidIncrement,
+            _extension,
             _hasReservePrice,
             _encryptedReservePrice,
             _reserveProof
         );
 
-        emit AuctionCreated(auctionId, _title, msg.sender, _auctionType, _startTime, _endTime);
+        AuctionSettlement.escrowLot(auctions[auctionId], auctionId, LotStandard.ERC721, _token, _tokenId, 1);
     }
 
-    /// @notice Internal function to initialize auction data
-    function _initializeAuction(
-        uint256 auctionId,
+    /// @notice Create a new auction for an amount of an ERC-1155 token, escrowed until settlement
+    /// @dev The caller must have approved this contract for the token
+    function createERC1155Auction(
+        string memory _title,
+        string memory _description,
+        AuctionType _auctionType,
+        uint256 _startTime,
+        uint256 _endTime,
+        uint256 _minimumBidIncrement,
+        ExtensionPolicy calldata _extension,
+        bool _hasReservePrice,
+        externalEuint64 _encryptedReservePrice,
+        bytes calldata _reserveProof,
+        address _token,
+        uint256 _tokenId,
+        uint256 _amount
+    ) external onlyAuctioneer whenNotPaused {
+        require(_amount > 0, "Invalid lot amount");
+        uint256 auctionId = _createAuction(
+            _title,
+            _description,
+            "", // the image comes from the token metadata
+            _auctionType,
+            _startTime,
+            _endTime,
+            _minimumBidIncrement,
+            _extension,
+            _hasReservePrice,
+            _encryptedReservePrice,
+            _reserveProof
+        );
+
+        AuctionSettlement.escrowLot(auctions[auctionId], auctionId, LotStandard.ERC1155, _token, _tokenId, _amount);
+    }
+
+    /// @notice Validate and store a new auction
+    function _createAuction(
         string memory _title,
         string memory _description,
         string memory _itemImageUrl,
@@ -180,39 +533,62 @@ contract ConfidentialAuction is SepoliaConfig {
         uint256 _startTime,
         uint256 _endTime,
         uint256 _minimumBidIncrement,
-        uint256 _extensionTime,
+        ExtensionPolicy calldata _extension,
         bool _hasReservePrice,
         externalEuint64 _encryptedReservePrice,
         bytes calldata _reserveProof
-    ) internal {
-        Auction storage newAuction = auctions[auctionId];
-
-        newAuction.title = _title;
-        newAuction.description = _description;
-        newAuction.itemImageUrl = _itemImageUrl;
-        newAuction.creator = msg.sender;
-        newAuction.auctionType = _auctionType;
-        newAuction.status = AuctionStatus.PENDING;
-        newAuction.startTime = _startTime;
-        newAuction.endTime = _endTime;
-        newAuction.extensionTime = _extensionTime;
-        newAuction.minimumBidIncrement = _minimumBidIncrement;
-        newAuction.totalBids = 0;
-        newAuction.hasReservePrice = _hasReservePrice;
-
-        // Initialize encrypted values
-        newAuction.encryptedHighestBid = FHE.asEuint64(0);
-        FHE.allowThis(newAuction.encryptedHighestBid);
-        FHE.allow(newAuction.encryptedHighestBid, msg.sender);
-
-        if (_hasReservePrice) {
-            newAuction.encryptedReservePrice = FHE.fromExternal(_encryptedReservePrice, _reserveProof);
-            FHE.allowThis(newAuction.encryptedReservePrice);
-            FHE.allow(newAuction.encryptedReservePrice, msg.sender);
-        }
+    ) internal returns (uint256 auctionId) {
+        auctionId = auctionCounter++;
+        AuctionCreation.initialize(
+            auctions[auctionId],
+            auctionId,
+            _title,
+            _description,
+            _itemImageUrl,
+            _auctionType,
+            _startTime,
+            _endTime,
+            _minimumBidIncrement,
+            _extension,
+            _hasReservePrice,
+            _encryptedReservePrice,
+            _reserveProof,
+            MAX_TOTAL_EXTENSION
+        );
+        auctions[auctionId].pauseCursor = pausePeriods.length;
+        auctions[auctionId].feePercent = platformFeePercent;
+    }
+
+    /// @notice Fix the title, description or image of an auction (only the creator, before the first bid)
+    /// @param _auctionId Auction ID
+    /// @param _title New title
+    /// @param _description New description
+    /// @param _itemImageUrl New image URL
+    function updateAuctionMetadata(
+        uint256 _auctionId,
+        string calldata _title,
+        string calldata _description,
+        string calldata _itemImageUrl
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionCreation.updateMetadata(auctions[_auctionId], _auctionId, _title, _description, _itemImageUrl);
     }
 
-    /// @notice Place an encrypted bid
+    /// @notice Move the start and end times of an auction that has not started yet (only the creator)
+    /// @param _auctionId Auction ID
+    /// @param _startTime New start time, not in the past
+    /// @param _endTime New end time
+    function rescheduleAuction(
+        uint256 _auctionId,
+        uint256 _startTime,
+        uint256 _endTime
+    ) external auctionExists(_auctionId) auctionNotPaused(_auctionId) beforeBidding(_auctionId) {
+        AuctionCreation.reschedule(auctions[_auctionId], _auctionId, _startTime, _endTime);
+    }
+
+    /// @notice Place an encrypted bid, locking `msg.value` as additional collateral
+    /// @dev The collateral is public and capped at `type(uint64).max` wei in total. A bid above the bidder's total
+    ///      deposit, or in open auctions below the highest bid plus `minimumBidIncrement`, is a hidden no-op;
+    ///      `getLastBidAccepted` tells the bidder which happened.
     /// @param _auctionId Auction ID
     /// @param _encryptedBid Encrypted bid amount
     /// @param _inputProof Proof for encrypted bid
@@ -220,55 +596,423 @@ contract ConfidentialAuction is SepoliaConfig {
         uint256 _auctionId,
         externalEuint64 _encryptedBid,
         bytes calldata _inputProof
-    ) external auctionExists(_auctionId) auctionActive(_auctionId) canBid(_auctionId) {
+    )
+        external
+        payable
+        auctionExists(_auctionId)
+        auctionNotPaused(_auctionId)
+        auctionActive(_auctionId)
+        canBid(_auctionId)
+        notRecomputing(_auctionId)
+    {
         Auction storage auction = auctions[_auctionId];
-        
-        // Update auction status to active if it was pending
-        if (auction.status == AuctionStatus.PENDING) {
-            auction.status = AuctionStatus.ACTIVE;
-        }
+        require(auction.auctionType != AuctionType.DUTCH, "Use acceptPrice for Dutch auctions");
+        require(auction.auctionType != AuctionType.MULTI_UNIT_UNIFORM, "Use placeUnitBid for multi-unit auctions");
+        require(auction.auctionType != AuctionType.SEALED_BID_SECOND_PRICE || !auction.hasBid[msg.sender],
+                "Sealed bid already placed");
+
+        AuctionBidding.submitBid(
+            auction,
+            _auctionId,
+            msg.sender,
+            FHE.fromExternal(_encryptedBid, _inputProof),
+            msg.value
+        );
+
+        emit BidPlaced(_auctionId, msg.sender, block.timestamp);
+    }
 
-        euint64 bidAmount = FHE.fromExternal(_encryptedBid, _inputProof);
+    /// @notice Place an encrypted bid in an anonymous auction under a commitment instead of the caller's address
+    /// @dev The bid, its deposit, the bidder list and every event are keyed by the pseudonym
+    ///      `address(uint160(uint256(_commitment)))`, where `_commitment = keccak256(abi.encode(refundTo, salt))`.
+    ///      Anyone can submit the bid, so a relayer or a fresh account keeps the bidder's address off-chain; the
+    ///      input must be encrypted for the submitting address. The winner is revealed as a pseudonym, and the
+    ///      owner of a commitment opens it with `withdrawAnonymousDeposit`, which pays `refundTo`.
+    ///      Trade-offs: the deposit is public and paid by the submitter, so funding it can link the bidder;
+    ///      nobody can decrypt the bid, or whether it was accepted, but the contract and the creator, as the
+    ///      pseudonym holds no key; each commitment bids once, so raising an English bid takes a new commitment
+    ///      and a new deposit; and opening a commitment links it to `refundTo` once the auction is over.
+    /// @param _auctionId Auction ID
+    /// @param _commitment Hash of the refund address and a secret salt, not used before in this auction
+    /// @param _encryptedBid Encrypted bid amount
+    /// @param _inputProof Proof for encrypted bid
+    function placeAnonymousBid(
+        uint256 _auctionId,
+        bytes32 _commitment,
+        externalEuint64 _encryptedBid,
+        bytes calldata _inputProof
+    )
+        external
+        payable
+        auctionExists(_auctionId)
+        auctionNotPaused(_auctionId)
+        auctionActive(_auctionId)
+        notRecomputing(_auctionId)
+    {
+        Auction storage auction = auctions[_auctionId];
+        require(auction.anonymousBids, "Not an anonymous auction");
+        address pseudonym = address(uint160(uint256(_commitment)));
+        require(!auction.hasBid[pseudonym], "Commitment already used");
 
-        // Check if bid is higher than current highest bid
-        ebool isHigherBid = FHE.gt(bidAmount, auction.encryptedHighestBid);
-        
-        // Update highest bid if this bid is higher
-        auction.encryptedHighestBid = FHE.select(
-            isHigherBid,
-            bidAmount,
-            auction.encryptedHighestBid
+        AuctionBidding.submitBid(
+            auction,
+            _auctionId,
+            pseudonym,
+            FHE.fromExternal(_encryptedBid, _inputProof),
+            msg.value
         );
 
-        // Store bidder's bid
-        auction.encryptedBids[msg.sender] = bidAmount;
-        auction.bidTimestamps[msg.sender] = block.timestamp;
+        emit BidPlaced(_auctionId, pseudonym, block.timestamp);
+    }
 
-        // Add to bidders list if first bid
-        if (!auction.hasBid[msg.sender]) {
-            auction.hasBid[msg.sender] = true;
-            auction.bidders.push(msg.sender);
+    /// @notice Revise the caller's bid, locking `msg.value` as additional collateral
+    /// @dev English and reserve auctions only take raises: a revision must beat the highest bid by the increment,
+    ///      exactly like a rebid. Sealed-bid auctions take any covered amount, lower ones included, and recompute
+    ///      the leader over all bidders. Dutch acceptances are final.
+    /// @param _auctionId Auction ID
+    /// @param _encryptedBid Encrypted new bid amount
+    /// @param _inputProof Proof for encrypted bid
+    function reviseBid(
+        uint256 _auctionId,
+        externalEuint64 _encryptedBid,
+        bytes calldata _inputProof
+    )
+        external
+        payable
+        auctionExists(_auctionId)
+        auctionNotPaused(_auctionId)
+        auctionActive(_auctionId)
+        canBid(_auctionId)
+        notRecomputing(_auctionId)
+    {
+        Auction storage auction = auctions[_auctionId];
+        require(auction.auctionType != AuctionType.DUTCH, "Dutch bids are final");
+        require(auction.auctionType != AuctionType.MULTI_UNIT_UNIFORM, "Multi-unit bids are final");
+        require(auction.hasBid[msg.sender], "No bid to revise");
+
+        euint64 newBid = FHE.fromExternal(_encryptedBid, _inputProof);
+        if (_isSealed(auction)) {
+            if (AuctionBidding.reviseSealedBid(auction, _auctionId, newBid, msg.value, MAX_RECOMPUTE_BATCH)) {
+                emit HighestBidRecomputed(_auctionId);
+            }
+        } else {
+            AuctionBidding.submitBid(auction, _auctionId, msg.sender, newBid, msg.value);
         }
 
-        auction.totalBids++;
+        emit BidRevised(_auctionId, msg.sender, block.timestamp);
+    }
 
-        // Grant permissions
-        FHE.allowThis(auction.encryptedHighestBid);
-        FHE.allow(auction.encryptedHighestBid, auction.creator);
-        FHE.allowThis(auction.encryptedBids[msg.sender]);
-        FHE.allow(auction.encryptedBids[msg.sender], msg.sender);
+    /// @notice Withdraw the caller's sealed bid; the deposit stays locked until settlement
+    /// @dev Only sealed-bid auctions, where nobody has seen the bid; open auction bids are binding
+    /// @param _auctionId Auction ID
+    function withdrawBid(
+        uint256 _auctionId
+    )
+        external
+        auctionExists(_auctionId)
+        auctionNotPaused(_auctionId)
+        auctionActive(_auctionId)
+        notRecomputing(_auctionId)
+    {
+        Auction storage auction = auctions[_auctionId];
+        require(_isSealed(auction), "Only sealed bids can be withdrawn");
+        require(auction.hasBid[msg.sender], "No bid to withdraw");
 
-        // Check if auction should be extended (bid in last 5 minutes)
-        if (auction.endTime - block.timestamp <= EXTENSION_THRESHOLD && auction.extensionTime > 0) {
-            auction.endTime += auction.extensionTime;
-            auction.status = AuctionStatus.EXTENDED;
-            emit AuctionExtended(_auctionId, auction.endTime);
+        if (AuctionBidding.withdrawSealedBid(auction, MAX_RECOMPUTE_BATCH)) {
+            emit HighestBidRecomputed(_auctionId);
         }
 
+        emit BidWithdrawn(_auctionId, msg.sender, block.timestamp);
+    }
+
+    /// @notice Continue recomputing the highest bid after a sealed-bid revision or withdrawal
+    /// @dev Anyone can call this; each call folds in up to `MAX_RECOMPUTE_BATCH` bidders
+    /// @param _auctionId Auction ID
+    function recomputeHighestBid(uint256 _auctionId) external auctionExists(_auctionId) auctionNotPaused(_auctionId) {
+        Auction storage auction = auctions[_auctionId];
+        require(auction.recomputePending, "No recompute pending");
+
+        if (AuctionBidding.recomputeHighestBid(auction, MAX_RECOMPUTE_BATCH)) {
+            emit HighestBidRecomputed(_auctionId);
+        }
+    }
+
+    function _requireExists(uint256 _auctionId) internal view {
+        require(_auctionId < auctionCounter, "Auction does not exist");
+    }
+
+    /// @notice Require an auction that has started and is not over yet
+    function _requireActive(Auction storage auction) internal view {
+        require(auction.status == AuctionStatus.PENDING ||
+                auction.status == AuctionStatus.ACTIVE ||
+                auction.status == AuctionStatus.EXTENDED, "Auction not active");
+        require(block.timestamp >= auction.startTime, "Auction not started");
+        require(block.timestamp <= auction.endTime, "Auction ended");
+    }
+
+    /// @notice Require that the caller may bid in the auction under their own address
+    function _requireBidder(Auction storage auction) internal view {
+        require(msg.sender != auction.creator, "Creator cannot bid");
+        require(!auction.anonymousBids, "Use placeAnonymousBid");
+        require(!auction.isPrivate || auction.allowedBidders[msg.sender], "Not on the allowlist");
+    }
+
+    /// @notice Require the creator, configuring an auction nobody has bid in yet
+    /// @dev Auto-bidders join `bidders` when they lock their funds, before they place any bid
+    function _requireBeforeBidding(Auction storage auction) internal view {
+        require(msg.sender == auction.creator, "Only creator");
+        require(
+            auction.status == AuctionStatus.PENDING && auction.totalBids == 0 && auction.bidders.length == 0,
+            "Auction already has bids"
+        );
+    }
+
+    /// @notice Whether bids stay hidden from other bidders until the auction ends
+    function _isSealed(Auction storage auction) internal view returns (bool) {
+        return auction.auctionType == AuctionType.SEALED_BID ||
+               auction.auctionType == AuctionType.SEALED_BID_SECOND_PRICE;
+    }
+
+    /// @notice Accept the current Dutch price if it does not exceed the caller's encrypted maximum
+    /// @dev The first acceptance that meets the price ends the auction once the oracle calls back
+    ///      `acceptanceCallback`; later ones are not accepted. Collateral is locked as in `placeBid`.
+    /// @param _auctionId Auction ID
+    /// @param _encryptedMaxPrice Encrypted highest price the caller is willing to pay
+    /// @param _inputProof Proof for encrypted max price
+    function acceptPrice(
+        uint256 _auctionId,
+        externalEuint64 _encryptedMaxPrice,
+        bytes calldata _inputProof
+    )
+        external
+        payable
+        auctionExists(_auctionId)
+        auctionNotPaused(_auctionId)
+        auctionActive(_auctionId)
+        canBid(_auctionId)
+    {
+        AuctionBidding.acceptPrice(
+            auctions[_auctionId],
+            acceptanceRequests,
+            _auctionId,
+            FHE.fromExternal(_encryptedMaxPrice, _inputProof),
+            msg.value
+        );
+    }
+
+    /// @notice Decryption oracle callback: ends the Dutch auction when an acceptance met the price
+    /// @param _requestId Decryption request ID
+    /// @param _cleartexts ABI-encoded acceptance flag
+    /// @param _decryptionProof KMS signatures over the cleartexts
+    function acceptanceCallback(
+        uint256 _requestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_requestId, _cleartexts, _decryptionProof);
+
+        uint256 auctionId = acceptanceRequests[_requestId];
+        Auction storage auction = auctions[auctionId];
+        bool accepted = abi.decode(_cleartexts, (bool));
+        if (!accepted || auction.status == AuctionStatus.ENDED) return;
+
+        auction.status = AuctionStatus.ENDED;
+        emit AuctionEnded(auctionId, address(0), 0); // Winner and price are revealed on settlement
+    }
+
+    /// @notice Pay auction with a confidential token instead of ETH deposits
+    /// @dev Only the creator, before the first bid
+    /// @param _auctionId Auction ID
+    /// @param _token ERC-7984 style token, or the zero address for ETH deposits
+    function setPaymentToken(
+        uint256 _auctionId,
+        address _token
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        require(auctions[_auctionId].auctionType != AuctionType.MULTI_UNIT_UNIFORM, "Multi-unit auctions take ETH");
+        require(!auctions[_auctionId].anonymousBids, "Anonymous auctions take ETH");
+        auctions[_auctionId].paymentToken = IConfidentialToken(_token);
+        emit PaymentTokenSet(_auctionId, _token);
+    }
+
+    /// @notice Set the public price schedule of a Dutch auction
+    /// @dev Only the creator, before the first bid. The price falls linearly from `startTime` down to the floor.
+    /// @param _auctionId Auction ID
+    /// @param _startPrice Price at the start time in wei
+    /// @param _floorPrice Lowest price the auction falls to in wei, above zero
+    /// @param _priceDecayRate Price decrease in wei per second
+    function setDutchPricing(
+        uint256 _auctionId,
+        uint256 _startPrice,
+        uint256 _floorPrice,
+        uint256 _priceDecayRate
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionCreation.setDutchPricing(auctions[_auctionId], _auctionId, _startPrice, _floorPrice, _priceDecayRate);
+    }
+
+    /// @notice Set the number of identical units sold by a multi-unit auction
+    /// @dev Only the creator, before the first bid. Multi-unit auctions take ETH deposits, without reserve or lot.
+    /// @param _auctionId Auction ID
+    /// @param _units Units on sale, at most `MAX_UNITS`
+    function setUnitSupply(
+        uint256 _auctionId,
+        uint256 _units
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionMultiUnit.setUnitSupply(auctions[_auctionId], _auctionId, _units, MAX_UNITS);
+    }
+
+    /// @notice Give an English or reserve auction a candle ending instead of late-bid extensions
+    /// @dev Only the creator, before the first bid. The last `_window` seconds before the end time are split
+    ///      into `_periods` periods; once the auction is over, one of them is drawn at random as the real close.
+    /// @param _auctionId Auction ID
+    /// @param _window Length of the ending window in seconds
+    /// @param _periods Number of periods the close is drawn from, at most `MAX_CANDLE_PERIODS`
+    function setCandleEnding(
+        uint256 _auctionId,
+        uint256 _window,
+        uint256 _periods
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionBidding.setCandleEnding(auctions[_auctionId], _auctionId, _window, _periods, MAX_CANDLE_PERIODS);
+    }
+
+    /// @notice Draw the close of a candle auction once it is over; the winner is the leader at that close
+    /// @dev Permissionless. The close comes from on-chain FHE randomness and stays encrypted until
+    ///      `revealResults`, which publishes it together with the winner.
+    /// @param _auctionId Auction ID
+    function drawCandleEnd(uint256 _auctionId) external auctionExists(_auctionId) auctionNotPaused(_auctionId) {
+        AuctionBidding.drawCandleEnd(auctions[_auctionId], _auctionId);
+    }
+
+    /// @notice Make an auction private, so only allowlisted addresses can bid
+    /// @dev Only the creator, before the first bid. Addresses are allowed with `addBidders` or, when a Merkle
+    ///      root is given, by registering themselves with `registerBidder`.
+    /// @param _auctionId Auction ID
+    /// @param _merkleRoot Root of the allowed addresses, or zero for an explicit address set only
+    function setAllowlist(
+        uint256 _auctionId,
+        bytes32 _merkleRoot
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionCreation.setAllowlist(auctions[_auctionId], _auctionId, _merkleRoot);
+    }
+
+    /// @notice Add addresses to the allowlist of a private auction (only creator)
+    /// @param _auctionId Auction ID
+    /// @param _bidders Addresses to allow
+    function addBidders(uint256 _auctionId, address[] calldata _bidders) external auctionExists(_auctionId) {
+        AuctionCreation.updateBidders(auctions[_auctionId], _auctionId, _bidders, true);
+    }
+
+    /// @notice Remove addresses from the allowlist of a private auction (only creator)
+    /// @dev Bids already placed stay valid; removed addresses cannot register again with a Merkle proof
+    /// @param _auctionId Auction ID
+    /// @param _bidders Addresses to remove
+    function removeBidders(uint256 _auctionId, address[] calldata _bidders) external auctionExists(_auctionId) {
+        AuctionCreation.updateBidders(auctions[_auctionId], _auctionId, _bidders, false);
+    }
+
+    /// @notice Join the allowlist of a private auction with a proof against its Merkle root
+    /// @param _auctionId Auction ID
+    /// @param _proof Merkle proof of the caller's address
+    function registerBidder(uint256 _auctionId, bytes32[] calldata _proof) external auctionExists(_auctionId) {
+        AuctionCreation.registerBidder(auctions[_auctionId], _auctionId, _proof);
+    }
+
+    /// @notice Take bids only through `placeAnonymousBid`, so no bidder address is stored or emitted
+    /// @dev Only the creator, before the first bid. English, sealed-bid and reserve auctions paid in ETH,
+    ///      without a lot or an allowlist, as both need the winner's or bidders' real addresses.
+    /// @param _auctionId Auction ID
+    function setAnonymousBidding(uint256 _auctionId) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionCreation.setAnonymousBidding(auctions[_auctionId], _auctionId);
+    }
+
+    /// @notice Point an auction to an off-chain JSON listing, with images, attributes and category
+    /// @dev Only the creator, before the first bid. The URI should be content-addressed, e.g. `ipfs://`;
+    ///      clients reject documents that do not match `_metadataHash`. An empty URI removes the listing.
+    /// @param _auctionId Auction ID
+    /// @param _metadataURI Location of the JSON document
+    /// @param _metadataHash keccak256 of the document's bytes
+    function setMetadataURI(
+        uint256 _auctionId,
+        string calldata _metadataURI,
+        bytes32 _metadataHash
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionCreation.setMetadataURI(auctions[_auctionId], _auctionId, _metadataURI, _metadataHash);
+    }
+
+    /// @notice Add a category to the registry (only owner)
+    /// @param _name Display name
+    function addCategory(string calldata _name) external onlyOwner {
+        AuctionCreation.addCategory(categories[++categoryCount], categoryCount, _name);
+    }
+
+    /// @notice Retire a category, so no new auction can be filed under it (only owner)
+    /// @param _categoryId Category ID
+    function retireCategory(uint256 _categoryId) external onlyOwner {
+        AuctionCreation.retireCategory(categories[_categoryId], _categoryId);
+    }
+
+    /// @notice File an auction under a registered category and tag it, for listings and search
+    /// @dev Only the creator, before the first bid. Tags are free-form, at most `MAX_TAGS`, each a non-empty
+    ///      short string; clients lowercase them so they facet consistently.
+    /// @param _auctionId Auction ID
+    /// @param _categoryId Active category, or zero for none
+    /// @param _tags Tags, replacing any previous ones
+    function setAuctionCategory(
+        uint256 _auctionId,
+        uint256 _categoryId,
+        bytes32[] calldata _tags
+    ) external auctionExists(_auctionId) beforeBidding(_auctionId) {
+        AuctionCreation.setCategory(
+            auctions[_auctionId],
+            categories[_categoryId],
+            _auctionId,
+            _categoryId,
+            _tags,
+            MAX_TAGS
+        );
+    }
+
+    /// @notice Bid for a number of units of a multi-unit auction, locking `msg.value` as collateral
+    /// @dev One final bid per bidder. The deposit has to cover unit price times quantity.
+    /// @param _auctionId Auction ID
+    /// @param _encryptedUnitPrice Encrypted price per unit
+    /// @param _encryptedQuantity Encrypted number of units
+    /// @param _inputProof Proof for both encrypted values
+    function placeUnitBid(
+        uint256 _auctionId,
+        externalEuint64 _encryptedUnitPrice,
+        externalEuint64 _encryptedQuantity,
+        bytes calldata _inputProof
+    )
+        external
+        payable
+        auctionExists(_auctionId)
+        auctionNotPaused(_auctionId)
+        auctionActive(_auctionId)
+        canBid(_auctionId)
+    {
+        Auction storage auction = auctions[_auctionId];
+        AuctionMultiUnit.recordUnitBid(
+            auction,
+            _auctionId,
+            FHE.fromExternal(_encryptedUnitPrice, _inputProof),
+            FHE.fromExternal(_encryptedQuantity, _inputProof),
+            msg.value
+        );
+        AuctionBidding.extendOnLateBid(auction, _auctionId);
+
         emit BidPlaced(_auctionId, msg.sender, block.timestamp);
     }
 
+    /// @notice Compute the caller's encrypted allocation once a multi-unit auction is over
+    /// @dev Only the caller can decrypt it, through `getUnitBid`
+    /// @param _auctionId Auction ID
+    function computeAllocation(uint256 _auctionId) external auctionExists(_auctionId) auctionNotPaused(_auctionId) {
+        AuctionMultiUnit.computeAllocation(auctions[_auctionId]);
+    }
+
     /// @notice Set up auto-bidding with maximum bid amount
+    /// @dev Whenever a manual bid lands, the contract bids on the caller's behalf up to the maximum.
+    ///      ETH auctions lock `msg.value` as collateral; token auctions pull the maximum into escrow.
     /// @param _auctionId Auction ID
     /// @param _encryptedMaxBid Encrypted maximum bid amount
     /// @param _inputProof Proof for encrypted max bid
@@ -276,61 +1020,168 @@ contract ConfidentialAuction is SepoliaConfig {
         uint256 _auctionId,
         externalEuint64 _encryptedMaxBid,
         bytes calldata _inputProof
-    ) external auctionExists(_auctionId) canBid(_auctionId) {
-        Auction storage auction = auctions[_auctionId];
-        require(auction.status == AuctionStatus.PENDING || auction.status == AuctionStatus.ACTIVE, 
-                "Cannot set auto-bid on ended auction");
-
-        euint64 maxBidAmount = FHE.fromExternal(_encryptedMaxBid, _inputProof);
-        auction.encryptedMaxAutoBid[msg.sender] = maxBidAmount;
-        auction.hasAutoBid[msg.sender] = true;
-
-        // Grant permissions
-        FHE.allowThis(auction.encryptedMaxAutoBid[msg.sender]);
-        FHE.allow(auction.encryptedMaxAutoBid[msg.sender], msg.sender);
+    ) external payable auctionExists(_auctionId) auctionNotPaused(_auctionId) canBid(_auctionId) {
+        AuctionBidding.registerAutoBid(
+            auctions[_auctionId],
+            _auctionId,
+            FHE.fromExternal(_encryptedMaxBid, _inputProof),
+            msg.value,
+            MAX_AUTO_BIDDERS
+        );
 
         emit AutoBidSet(_auctionId, msg.sender);
     }
 
-    /// @notice End auction manually (only creator or owner)
+    /// @notice End auction manually (only creator or admin)
     /// @param _auctionId Auction ID
-    function endAuction(uint256 _auctionId) external auctionExists(_auctionId) {
-        Auction storage auction = auctions[_auctionId];
-        require(msg.sender == auction.creator || msg.sender == owner, "Not authorized");
-        require(auction.status == AuctionStatus.ACTIVE || auction.status == AuctionStatus.EXTENDED, 
-                "Auction not active");
+    function endAuction(uint256 _auctionId) external auctionExists(_auctionId) auctionNotPaused(_auctionId) {
+        AuctionSettlement.end(auctions[_auctionId], _auctionId, hasRole(ADMIN_ROLE, msg.sender));
+    }
 
-        auction.status = AuctionStatus.ENDED;
-        emit AuctionEnded(_auctionId, auction.currentHighestBidder, 0); // Actual amount revealed later
+    /// @notice Move an auction whose end time has passed to ENDED
+    /// @dev Permissionless, so results can be revealed and settled without the creator
+    /// @param _auctionId Auction ID
+    function finalize(uint256 _auctionId) external auctionExists(_auctionId) auctionNotPaused(_auctionId) {
+        AuctionSettlement.finalize(auctions[_auctionId], _auctionId);
     }
 
-    /// @notice Cancel auction (only creator, before any bids)
+    /// @notice Cancel auction (only creator or admin, before any bids)
     /// @param _auctionId Auction ID
     function cancelAuction(uint256 _auctionId) external auctionExists(_auctionId) {
-        Auction storage auction = auctions[_auctionId];
-        require(msg.sender == auction.creator || msg.sender == owner, "Not authorized");
-        require(auction.totalBids == 0, "Cannot cancel auction with bids");
-        require(auction.status != AuctionStatus.ENDED, "Auction already ended");
+        AuctionSettlement.cancel(auctions[_auctionId], _auctionId, hasRole(ADMIN_ROLE, msg.sender));
+    }
+
+    /// @notice Request public decryption of the auction results
+    /// @dev The oracle calls back `revealCallback`, which stores the cleartext results and emits `AuctionEnded`
+    /// @param _auctionId Auction ID
+    function revealResults(
+        uint256 _auctionId
+    ) external auctionExists(_auctionId) auctionNotPaused(_auctionId) notRecomputing(_auctionId) {
+        AuctionSettlement.requestReveal(
+            auctions[_auctionId],
+            revealRequests,
+            _auctionId,
+            hasRole(ADMIN_ROLE, msg.sender)
+        );
+    }
+
+    /// @notice Decryption oracle callback: stores the cleartext results and announces the winner
+    /// @dev Reserve auctions call back twice, with the reserve check first, then with the results if it passed
+    /// @param _requestId Decryption request ID
+    /// @param _cleartexts ABI-encoded reserve check, or clearing price and winner
+    /// @param _decryptionProof KMS signatures over the cleartexts
+    function revealCallback(
+        uint256 _requestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_requestId, _cleartexts, _decryptionProof);
 
-        auction.status = AuctionStatus.CANCELLED;
-        emit AuctionCancelled(_auctionId);
+        uint256 auctionId = revealRequests[_requestId];
+        AuctionSettlement.completeReveal(auctions[auctionId], revealRequests, auctionId, _cleartexts);
     }
 
-    /// @notice Make auction results publicly decryptable
+    /// @notice Request decryption of the winner and clearing price to settle escrowed deposits
+    /// @dev Anyone can trigger settlement once the auction is over; the oracle calls back `settlementCallback`,
+    ///      after `reserveCallback` for reserve auctions
     /// @param _auctionId Auction ID
-    function revealResults(uint256 _auctionId) external auctionExists(_auctionId) {
-        Auction storage auction = auctions[_auctionId];
-        require(auction.status == AuctionStatus.ENDED || block.timestamp > auction.endTime, 
-                "Auction not finished");
-        require(msg.sender == auction.creator || msg.sender == owner, "Not authorized");
+    function settle(
+        uint256 _auctionId
+    ) external auctionExists(_auctionId) auctionNotPaused(_auctionId) notRecomputing(_auctionId) {
+        AuctionSettlement.requestSettlement(auctions[_auctionId], settlementRequests, _auctionId);
+    }
 
-        // Make highest bid publicly decryptable
-        FHE.makePubliclyDecryptable(auction.encryptedHighestBid);
+    /// @notice Decryption oracle callback: fails the auction if the reserve was missed, otherwise settles it
+    /// @param _requestId Decryption request ID
+    /// @param _cleartexts ABI-encoded reserve check
+    /// @param _decryptionProof KMS signatures over the cleartexts
+    function reserveCallback(
+        uint256 _requestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_requestId, _cleartexts, _decryptionProof);
 
-        // Make reserve price decryptable if exists
-        if (auction.hasReservePrice) {
-            FHE.makePubliclyDecryptable(auction.encryptedReservePrice);
+        uint256 auctionId = settlementRequests[_requestId];
+        AuctionSettlement.completeReserveCheck(auctions[auctionId], settlementRequests, auctionId, _cleartexts);
+    }
+
+    /// @notice Decryption oracle callback: pays the creator from the winner's deposit, minus the platform fee
+    /// @param _requestId Decryption request ID
+    /// @param _cleartexts ABI-encoded clearing price and winner
+    /// @param _decryptionProof KMS signatures over the cleartexts
+    function settlementCallback(
+        uint256 _requestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_requestId, _cleartexts, _decryptionProof);
+
+        uint256 auctionId = settlementRequests[_requestId];
+        AuctionSettlement.completeSettlement(
+            auctions[auctionId],
+            pendingWithdrawals,
+            fees,
+            treasury,
+            auctionId,
+            _cleartexts
+        );
+    }
+
+    /// @notice Deliver an escrowed lot: to the winner after settlement, otherwise back to the creator
+    /// @dev Anyone can trigger delivery; the lot only ever goes to the entitled recipient.
+    ///      Cancelled, failed and bidless auctions return the lot to the creator. ERC-1155 lots are sent with the
+    ///      receiver check the standard requires, so a winning contract has to accept ERC-1155 tokens.
+    /// @param _auctionId Auction ID
+    function claimLot(uint256 _auctionId) external auctionExists(_auctionId) {
+        AuctionSettlement.deliverLot(auctions[_auctionId], _auctionId);
+    }
+
+    /// @notice Withdraw the caller's remaining deposit or token escrow once the auction is settled or cancelled
+    /// @param _auctionId Auction ID
+    function withdraw(uint256 _auctionId) external auctionExists(_auctionId) {
+        Auction storage auction = auctions[_auctionId];
+        if (auction.auctionType == AuctionType.MULTI_UNIT_UNIFORM && auction.settled) {
+            // The refund depends on the caller's hidden allocation, so their payment is decrypted first
+            AuctionMultiUnit.requestRefund(auction, settlementRequests, _auctionId);
+            return;
         }
+        AuctionSettlement.refund(auction, _auctionId, msg.sender, msg.sender);
+    }
+
+    /// @notice Open the commitment of an anonymous bid and send what is left of its deposit to the refund address
+    /// @dev Anyone holding the salt can call this; the refund address is part of the commitment, so it cannot
+    ///      be redirected. Events name the pseudonym, not the refund address.
+    /// @param _auctionId Auction ID
+    /// @param _refundTo Refund address committed to when bidding
+    /// @param _salt Secret salt committed to when bidding
+    function withdrawAnonymousDeposit(
+        uint256 _auctionId,
+        address _refundTo,
+        bytes32 _salt
+    ) external auctionExists(_auctionId) {
+        address pseudonym = address(uint160(uint256(keccak256(abi.encode(_refundTo, _salt)))));
+        AuctionSettlement.refund(auctions[_auctionId], _auctionId, pseudonym, _refundTo);
+    }
+
+    /// @notice Decryption oracle callback: refunds a multi-unit bidder's deposit minus what their units cost
+    /// @param _requestId Decryption request ID
+    /// @param _cleartexts ABI-encoded payment
+    /// @param _decryptionProof KMS signatures over the cleartexts
+    function unitRefundCallback(
+        uint256 _requestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_requestId, _cleartexts, _decryptionProof);
+
+        uint256 auctionId = settlementRequests[_requestId];
+        AuctionMultiUnit.completeRefund(auctions[auctionId], auctionId, _requestId, abi.decode(_cleartexts, (uint64)));
+    }
+
+    /// @notice Withdraw accumulated sale proceeds
+    function withdrawProceeds() external {
+        AuctionSettlement.withdrawProceeds(pendingWithdrawals);
     }
 
     /// @notice Get auction information
@@ -350,10 +1201,12 @@ contract ConfidentialAuction is SepoliaConfig {
             uint256 endTime,
             uint256 minimumBidIncrement,
             uint256 totalBids,
-            bool hasReservePrice
+            bool hasReservePrice,
+            uint256 totalUnits
         ) 
     {
         Auction storage auction = auctions[_auctionId];
+        (startTime, endTime, ) = _currentSchedule(auction);
         return (
             auction.title,
             auction.description,
@@ -361,11 +1214,12 @@ contract ConfidentialAuction is SepoliaConfig {
             auction.creator,
             auction.auctionType,
             auction.status,
-            auction.startTime,
-            auction.endTime,
+            startTime,
+            endTime,
             auction.minimumBidIncrement,
             auction.totalBids,
-            auction.hasReservePrice
+            auction.hasReservePrice,
+            auction.totalUnits
         );
     }
 
@@ -380,6 +1234,39 @@ contract ConfidentialAuction is SepoliaConfig {
         return auctions[_auctionId].encryptedHighestBid;
     }
 
+    /// @notice Get the encrypted price the winner pays
+    /// @param _auctionId Auction ID
+    function getEncryptedClearingPrice(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (euint64) 
+    {
+        return AuctionSettlement.clearingPrice(auctions[_auctionId]);
+    }
+
+    /// @notice Get the encrypted reserve check, set once results are revealed or settlement starts
+    /// @param _auctionId Auction ID
+    function getEncryptedReserveMet(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (ebool) 
+    {
+        return auctions[_auctionId].encryptedReserveMet;
+    }
+
+    /// @notice Get encrypted highest bidder
+    /// @param _auctionId Auction ID
+    function getEncryptedHighestBidder(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (eaddress) 
+    {
+        return auctions[_auctionId].encryptedHighestBidder;
+    }
+
     /// @notice Get user's encrypted bid
     /// @param _auctionId Auction ID
     /// @param _bidder Bidder address
@@ -392,6 +1279,268 @@ contract ConfidentialAuction is SepoliaConfig {
         return auctions[_auctionId].encryptedBids[_bidder];
     }
 
+    /// @notice Get the encrypted flag telling a bidder whether their latest bid was accepted
+    /// @param _auctionId Auction ID
+    /// @param _bidder Bidder address
+    function getLastBidAccepted(uint256 _auctionId, address _bidder) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (ebool) 
+    {
+        return auctions[_auctionId].lastBidAccepted[_bidder];
+    }
+
+    /// @notice Get a bidder's locked deposit
+    /// @param _auctionId Auction ID
+    /// @param _bidder Bidder address
+    function getDeposit(uint256 _auctionId, address _bidder) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (uint256) 
+    {
+        return auctions[_auctionId].deposits[_bidder];
+    }
+
+    /// @notice Get a bidder's encrypted token escrow
+    /// @param _auctionId Auction ID
+    /// @param _bidder Bidder address
+    function getEncryptedEscrow(uint256 _auctionId, address _bidder) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (euint64) 
+    {
+        return auctions[_auctionId].encryptedEscrow[_bidder];
+    }
+
+    /// @notice Get the auction's payment token (zero address for ETH deposits)
+    /// @param _auctionId Auction ID
+    function getPaymentToken(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (address) 
+    {
+        return address(auctions[_auctionId].paymentToken);
+    }
+
+    /// @notice Get the Dutch price schedule
+    /// @dev The price decays from the start time given by `getAuctionInfo`, except for `pausedDuration`
+    /// @param _auctionId Auction ID
+    function getDutchPricing(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (uint256 startPrice, uint256 floorPrice, uint256 priceDecayRate, uint256 pausedDuration) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        (, , pausedDuration) = _currentSchedule(auction);
+        return (auction.startPrice, auction.floorPrice, auction.priceDecayRate, pausedDuration);
+    }
+
+    /// @notice Get the current Dutch price
+    /// @param _auctionId Auction ID
+    function getCurrentPrice(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (uint256) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        require(auction.auctionType == AuctionType.DUTCH, "Not a Dutch auction");
+        (uint256 startTime, , uint256 pausedDuration) = _currentSchedule(auction);
+        return AuctionBidding.currentPrice(auction, startTime, pausedDuration);
+    }
+
+    /// @notice Get settlement results
+    /// @param _auctionId Auction ID
+    function getSettlement(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (bool settled, address winner, uint256 winningBid) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        return (auction.settled, auction.winner, auction.winningBid);
+    }
+
+    /// @notice Get the platform fee an auction settles with, snapshotted when it was created
+    /// @param _auctionId Auction ID
+    function getAuctionFee(uint256 _auctionId) external view auctionExists(_auctionId) returns (uint256) {
+        return auctions[_auctionId].feePercent;
+    }
+
+    /// @notice Get the platform fees in ETH awaiting `withdrawFees`
+    function getAccruedFees() external view returns (uint256) {
+        return fees.accrued;
+    }
+
+    /// @notice Get the platform fees in a confidential token awaiting `withdrawFees`
+    /// @dev The treasury can decrypt them, as long as it has not changed since they were collected
+    /// @param _token Confidential token
+    function getEncryptedAccruedFees(address _token) external view returns (euint64) {
+        return fees.encryptedAccrued[_token];
+    }
+
+    /// @notice Get every bid the bidder submitted, oldest first
+    /// @dev Only the bidder can decrypt the entries
+    /// @param _auctionId Auction ID
+    /// @param _bidder Bidder address
+    function getBidHistory(uint256 _auctionId, address _bidder) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (euint64[] memory) 
+    {
+        return auctions[_auctionId].bidHistory[_bidder];
+    }
+
+    /// @notice Get the progress of a pending highest bid recompute
+    /// @param _auctionId Auction ID
+    function getRecomputeProgress(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (bool pending, uint256 processed, uint256 total) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        return (auction.recomputePending, auction.recomputeCursor, auction.bidders.length);
+    }
+
+    /// @notice Get the escrowed lot of an auction
+    /// @param _auctionId Auction ID
+    function getLot(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (LotStandard standard, address token, uint256 tokenId, uint256 amount, bool claimed) 
+    {
+        Lot storage lot = auctions[_auctionId].lot;
+        return (lot.standard, lot.token, lot.tokenId, lot.amount, lot.claimed);
+    }
+
+    /// @notice Get the results published by `revealResults`
+    /// @param _auctionId Auction ID
+    function getRevealedResults(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (bool revealed, address winner, uint256 winningBid, bool reserveMet, uint256 unitsSold) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        return (
+            auction.revealed,
+            auction.revealedWinner,
+            auction.revealedWinningBid,
+            auction.revealedReserveMet,
+            auction.unitsSold
+        );
+    }
+
+    /// @notice Get a multi-unit bid: unit price, quantity and, once computed, the units won
+    /// @dev Only the bidder can decrypt the values
+    /// @param _auctionId Auction ID
+    /// @param _bidder Bidder address
+    function getUnitBid(uint256 _auctionId, address _bidder) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (euint64 unitPrice, euint64 quantity, euint64 allocation) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        return (
+            auction.encryptedBids[_bidder],
+            auction.encryptedUnitBids[_bidder],
+            auction.encryptedAllocations[_bidder]
+        );
+    }
+
+    /// @notice Get the anti-sniping policy of an auction and how many times it was extended
+    /// @param _auctionId Auction ID
+    function getExtensionPolicy(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (uint256 threshold, uint256 extensionTime, uint256 maxExtensions, uint256 extensionCount) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        return (auction.extensionThreshold, auction.extensionTime, auction.maxExtensions, auction.extensionCount);
+    }
+
+    /// @notice Get the candle ending of an auction
+    /// @param _auctionId Auction ID
+    function getCandleEnding(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (uint256 window, uint256 periods, bool drawn, uint256 closeTime) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        return (auction.candleWindow, auction.candlePeriods, auction.candleDrawn, auction.candleEndTime);
+    }
+
+    /// @notice Get whether an auction is private and the Merkle root of its allowlist, if any
+    /// @param _auctionId Auction ID
+    function getAllowlist(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (bool isPrivate, bytes32 merkleRoot) 
+    {
+        return (auctions[_auctionId].isPrivate, auctions[_auctionId].bidderRoot);
+    }
+
+    /// @notice Get the off-chain listing of an auction and the hash its document must match
+    /// @param _auctionId Auction ID
+    function getMetadataURI(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (string memory metadataURI, bytes32 metadataHash) 
+    {
+        return (auctions[_auctionId].metadataURI, auctions[_auctionId].metadataHash);
+    }
+
+    /// @notice Get the category and tags of an auction
+    /// @param _auctionId Auction ID
+    function getAuctionCategory(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (uint256 categoryId, bytes32[] memory tags) 
+    {
+        return (auctions[_auctionId].categoryId, auctions[_auctionId].tags);
+    }
+
+    /// @notice Whether an auction only takes anonymous bids, keyed by commitment pseudonyms
+    /// @param _auctionId Auction ID
+    function isAnonymousAuction(uint256 _auctionId) external view auctionExists(_auctionId) returns (bool) {
+        return auctions[_auctionId].anonymousBids;
+    }
+
+    /// @notice Check if an address may bid in an auction
+    /// @dev Addresses in a Merkle allowlist only count once they registered with `registerBidder`
+    /// @param _auctionId Auction ID
+    /// @param _bidder Bidder address
+    /// @return True if the auction is public or the address is allowlisted, and it is not the creator
+    function canBidInAuction(uint256 _auctionId, address _bidder) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (bool) 
+    {
+        Auction storage auction = auctions[_auctionId];
+        return _bidder != auction.creator && (!auction.isPrivate || auction.allowedBidders[_bidder]);
+    }
+
+    /// @notice Whether the contract, or this auction on its own, is paused
+    /// @param _auctionId Auction ID
+    function isAuctionPaused(uint256 _auctionId) external view auctionExists(_auctionId) returns (bool) {
+        return paused || auctions[_auctionId].pausedAt != 0;
+    }
+
     /// @notice Check if user has bid
     /// @param _auctionId Auction ID
     /// @param _bidder Bidder address
@@ -420,6 +1569,34 @@ contract ConfidentialAuction is SepoliaConfig {
         return auctions[_auctionId].bidders;
     }
 
+    /// @notice Get the status implied by the current block time
+    /// @dev The stored status only moves on bids, `endAuction` or `finalize`; this view never lags behind
+    /// @param _auctionId Auction ID
+    function getEffectiveStatus(uint256 _auctionId) 
+        external 
+        view 
+        auctionExists(_auctionId) 
+        returns (AuctionStatus) 
+    {
+        return _effectiveStatus(auctions[_auctionId]);
+    }
+
+    /// @notice Derive the status from the stored status and the auction's timestamps
+    function _effectiveStatus(Auction storage auction) internal view returns (AuctionStatus) {
+        AuctionStatus status = auction.status;
+        if (status == AuctionStatus.ENDED || status == AuctionStatus.CANCELLED || status == AuctionStatus.FAILED) {
+            return status;
+        }
+        (uint256 startTime, uint256 endTime, ) = _currentSchedule(auction);
+        if (block.timestamp > endTime) {
+            return AuctionStatus.ENDED;
+        }
+        if (status == AuctionStatus.PENDING && block.timestamp >= startTime) {
+            return AuctionStatus.ACTIVE;
+        }
+        return status;
+    }
+
     /// @notice Check if auction has ended
     /// @param _auctionId Auction ID
     function isAuctionEnded(uint256 _auctionId) 
@@ -428,9 +1605,7 @@ contract ConfidentialAuction is SepoliaConfig {
         auctionExists(_auctionId) 
         returns (bool) 
     {
-        Auction storage auction = auctions[_auctionId];
-        return auction.status == AuctionStatus.ENDED || 
-               auction.status == AuctionStatus.CANCELLED ||
-               block.timestamp > auction.endTime;
+        AuctionStatus status = _effectiveStatus(auctions[_auctionId]);
+        return status == AuctionStatus.ENDED || status == AuctionStatus.CANCELLED || status == AuctionStatus.FAILED;
     }
 }
@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, ebool, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+
+/// @title ConfidentialTokenMock - Confidential fungible token for local testing
+/// @author ConfidentialAuction Team
+/// @notice ERC-7984 style token with encrypted balances and encrypted allowances. Minting is open.
+contract ConfidentialTokenMock is IConfidentialToken, SepoliaConfig {
+    using FHE for euint64;
+    using FHE for ebool;
+
+    // Events
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 amount);
+    event ConfidentialApproval(address indexed owner, address indexed spender);
+
+    // State variables
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 6;
+    mapping(address => euint64) internal balances;
+    mapping(address => mapping(address => euint64)) internal allowances;
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+    }
+
+    /// @notice Mint tokens to an address
+    /// @param _to Recipient
+    /// @param _amount Cleartext amount to mint
+    function mint(address _to, uint64 _amount) external {
+        euint64 newBalance = FHE.add(balances[_to], _amount);
+        _setBalance(_to, newBalance);
+        emit ConfidentialTransfer(address(0), _to, FHE.asEuint64(_amount));
+    }
+
+    /// @notice Approve a spender for an encrypted amount
+    /// @param _spender Spender address
+    /// @param _encryptedAmount Encrypted allowance
+    /// @param _inputProof Proof for encrypted allowance
+    function approve(address _spender, externalEuint64 _encryptedAmount, bytes calldata _inputProof) external {
+        euint64 amount = FHE.fromExternal(_encryptedAmount, _inputProof);
+        allowances[msg.sender][_spender] = amount;
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, _spender);
+
+        emit ConfidentialApproval(msg.sender, _spender);
+    }
+
+    /// @notice Transfer an encrypted input amount from the caller
+    /// @param _to Recipient
+    /// @param _encryptedAmount Encrypted amount
+    /// @param _inputProof Proof for encrypted amount
+    function confidentialTransfer(
+        address _to,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) external returns (euint64) {
+        return _transfer(msg.sender, _to, FHE.fromExternal(_encryptedAmount, _inputProof));
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransfer(address _to, euint64 _amount) external returns (euint64) {
+        require(FHE.isSenderAllowed(_amount), "Amount not allowed");
+        return _transfer(msg.sender, _to, _amount);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransferFrom(address _from, address _to, euint64 _amount) external returns (euint64) {
+        require(FHE.isSenderAllowed(_amount), "Amount not allowed");
+
+        euint64 allowance = allowances[_from][msg.sender];
+        ebool withinAllowance = FHE.le(_amount, allowance);
+        euint64 spendable = FHE.select(withinAllowance, _amount, FHE.asEuint64(0));
+        euint64 transferred = _transfer(_from, _to, spendable);
+
+        euint64 newAllowance = FHE.sub(allowance, transferred);
+        allowances[_from][msg.sender] = newAllowance;
+        FHE.allowThis(newAllowance);
+        FHE.allow(newAllowance, _from);
+        FHE.allow(newAllowance, msg.sender);
+
+        return transferred;
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialBalanceOf(address _account) external view returns (euint64) {
+        return balances[_account];
+    }
+
+    /// @notice Get an encrypted allowance
+    /// @param _owner Token owner
+    /// @param _spender Spender address
+    function confidentialAllowance(address _owner, address _spender) external view returns (euint64) {
+        return allowances[_owner][_spender];
+    }
+
+    /// @dev Moves `amount` if `from` can afford it, zero otherwise, and returns what moved
+    function _transfer(address _from, address _to, euint64 _amount) internal returns (euint64) {
+        ebool canTransfer = FHE.le(_amount, balances[_from]);
+        euint64 transferred = FHE.select(canTransfer, _amount, FHE.asEuint64(0));
+
+        _setBalance(_from, FHE.sub(balances[_from], transferred));
+        _setBalance(_to, FHE.add(balances[_to], transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+        FHE.allow(transferred, _from);
+        FHE.allow(transferred, _to);
+
+        emit ConfidentialTransfer(_from, _to, transferred);
+        return transferred;
+    }
+
+    function _setBalance(address _account, euint64 _balance) internal {
+        balances[_account] = _balance;
+        FHE.allowThis(_balance);
+        FHE.allow(_balance, _account);
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+/// @title ERC1155Mock - Multi-token for local testing of escrowed lots
+/// @author ConfidentialAuction Team
+/// @notice Minting is open; `uri` follows the ERC-1155 `{id}` substitution convention
+contract ERC1155Mock is ERC1155 {
+    constructor(string memory _uri) ERC1155(_uri) {}
+
+    /// @notice Mint an amount of a token
+    /// @param _to Recipient
+    /// @param _tokenId Token ID
+    /// @param _amount Amount to mint
+    function mint(address _to, uint256 _tokenId, uint256 _amount) external {
+        _mint(_to, _tokenId, _amount, "");
+    }
+}
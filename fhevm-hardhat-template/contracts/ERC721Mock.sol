@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/// @title ERC721Mock - NFT for local testing of escrowed lots
+/// @author ConfidentialAuction Team
+/// @notice Minting is open; every token carries its own metadata URI
+contract ERC721Mock is ERC721 {
+    mapping(uint256 => string) internal tokenURIs;
+
+    constructor(string memory _name, string memory _symbol) ERC721(_name, _symbol) {}
+
+    /// @notice Mint a token with a metadata URI
+    /// @param _to Recipient
+    /// @param _tokenId Token ID
+    /// @param _tokenURI Metadata URI returned by `tokenURI`
+    function mint(address _to, uint256 _tokenId, string memory _tokenURI) external {
+        tokenURIs[_tokenId] = _tokenURI;
+        _mint(_to, _tokenId);
+    }
+
+    /// @notice Get the metadata URI of a token
+    function tokenURI(uint256 _tokenId) public view override returns (string memory) {
+        _requireOwned(_tokenId);
+        return tokenURIs[_tokenId];
+    }
+}
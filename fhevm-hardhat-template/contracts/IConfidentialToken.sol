@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title IConfidentialToken - Minimal ERC-7984 style confidential fungible token
+/// @notice Balances and amounts are encrypted; transfers never revert on insufficient funds,
+///         they transfer zero instead and return the amount actually moved
+interface IConfidentialToken {
+    /// @notice Transfer an encrypted amount from the caller
+    /// @dev The caller must be allowed to use `amount` (e.g. through `FHE.allowTransient`)
+    /// @return transferred Encrypted amount actually transferred
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    /// @notice Transfer an encrypted amount from `from`, spending the caller's encrypted allowance
+    /// @dev The caller must be allowed to use `amount` (e.g. through `FHE.allowTransient`)
+    /// @return transferred Encrypted amount actually transferred
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred);
+
+    /// @notice Get an account's encrypted balance
+    function confidentialBalanceOf(address account) external view returns (euint64);
+}
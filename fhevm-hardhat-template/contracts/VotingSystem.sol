@@ -3,11 +3,13 @@ pragma solidity ^0.8.24;
 
 import {FHE, euint8, euint32, ebool, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {AccessRoles} from "./AccessRoles.sol";
 
 /// @title ZamaVoting - Confidential Voting System using FHEVM
 /// @author ZamaVoting Team
 /// @notice A privacy-preserving voting system where votes are encrypted and anonymous
-contract VotingSystem is SepoliaConfig {
+/// @dev Admins, granted `ADMIN_ROLE` by the owner, can end any voting and make its results public
+contract VotingSystem is SepoliaConfig, AccessRoles {
     using FHE for euint8;
     using FHE for euint32;
     using FHE for ebool;
@@ -37,19 +39,10 @@ contract VotingSystem is SepoliaConfig {
     // State variables
     uint256 public votingCounter;
     mapping(uint256 => Voting) public votings;
-    
-    // Access control
-    mapping(address => bool) public admins;
-    address public owner;
 
     // Modifiers
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can call this function");
-        _;
-    }
-
     modifier onlyAdmin() {
-        require(admins[msg.sender] || msg.sender == owner, "Only admin can call this function");
+        require(hasRole(ADMIN_ROLE, msg.sender), "Only admin can call this function");
         _;
     }
 
@@ -74,15 +67,20 @@ contract VotingSystem is SepoliaConfig {
     }
 
     constructor() {
-        owner = msg.sender;
-        admins[msg.sender] = true;
+        _initializeOwner(msg.sender);
     }
 
-    /// @notice Add or remove admin
+    /// @notice Add or remove admin (only owner, same as `grantRole`/`revokeRole` with `ADMIN_ROLE`)
     /// @param _admin Address to modify admin status
     /// @param _isAdmin True to add admin, false to remove
     function setAdmin(address _admin, bool _isAdmin) external onlyOwner {
-        admins[_admin] = _isAdmin;
+        _setRole(ADMIN_ROLE, _admin, _isAdmin);
+    }
+
+    /// @notice Check whether an address is an admin
+    /// @param _account Address to check
+    function admins(address _account) external view returns (bool) {
+        return hasRole(ADMIN_ROLE, _account);
     }
 
     /// @notice Create a new voting
@@ -192,7 +190,7 @@ contract VotingSystem is SepoliaConfig {
     /// @param _votingId Voting ID
     function endVoting(uint256 _votingId) external votingExists(_votingId) {
         require(
-            msg.sender == votings[_votingId].creator || admins[msg.sender] || msg.sender == owner,
+            msg.sender == votings[_votingId].creator || hasRole(ADMIN_ROLE, msg.sender),
             "Not authorized to end voting"
         );
         require(votings[_votingId].isActive, "Voting already ended");
@@ -206,7 +204,7 @@ contract VotingSystem is SepoliaConfig {
     function makeResultsPublic(uint256 _votingId) external votingExists(_votingId) {
         require(!votings[_votingId].isActive, "Voting is still active");
         require(
-            msg.sender == votings[_votingId].creator || admins[msg.sender] || msg.sender == owner,
+            msg.sender == votings[_votingId].creator || hasRole(ADMIN_ROLE, msg.sender),
             "Not authorized to make results public"
         );
 
@@ -9,15 +9,71 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   console.log(`Deploying ConfidentialAuction to ${network.name}...`);
   console.log(`Deployer: ${deployer}`);
 
+  // The creation, bidding and settlement logic lives in linked libraries to keep the auction under the contract size limit
+  const auctionBidding = await deploy("AuctionBidding", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+    waitConfirmations: network.name === "hardhat" ? 1 : 6,
+  });
+  const auctionCreation = await deploy("AuctionCreation", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+    waitConfirmations: network.name === "hardhat" ? 1 : 6,
+  });
+  const auctionMultiUnit = await deploy("AuctionMultiUnit", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+    waitConfirmations: network.name === "hardhat" ? 1 : 6,
+  });
+  const auctionSettlement = await deploy("AuctionSettlement", {
+    from: deployer,
+    libraries: { AuctionMultiUnit: auctionMultiUnit.address },
+    log: true,
+    autoMine: true,
+    waitConfirmations: network.name === "hardhat" ? 1 : 6,
+  });
+
+  // Behind a transparent proxy, owned by hardhat-deploy's DefaultProxyAdmin: the address, state and ACL
+  // permissions stay put, and rerunning this script with changed code upgrades the implementation
   const confidentialAuction = await deploy("ConfidentialAuction", {
     from: deployer,
-    args: [], // Constructor has no arguments
+    proxy: {
+      proxyContract: "OpenZeppelinTransparentProxy",
+      owner: deployer,
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [deployer],
+        },
+      },
+    },
+    libraries: {
+      AuctionBidding: auctionBidding.address,
+      AuctionCreation: auctionCreation.address,
+      AuctionMultiUnit: auctionMultiUnit.address,
+      AuctionSettlement: auctionSettlement.address,
+    },
     log: true,
     autoMine: true, // Speed up deployment on local network
     waitConfirmations: network.name === "hardhat" ? 1 : 6,
   });
 
   console.log(`ConfidentialAuction deployed to: ${confidentialAuction.address}`);
+  console.log(`Implementation: ${confidentialAuction.implementation}`);
+
+  // Read-only listings over the proxy, so clients load a page of auctions in one call
+  const auctionQuery = await deploy("AuctionQuery", {
+    from: deployer,
+    args: [confidentialAuction.address],
+    log: true,
+    autoMine: true,
+    waitConfirmations: network.name === "hardhat" ? 1 : 6,
+  });
+
+  console.log(`AuctionQuery deployed to: ${auctionQuery.address}`);
 
   // Verify contract on Etherscan (if not local network)
   if (network.name !== "hardhat" && network.name !== "localhost") {
@@ -27,7 +83,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     try {
       console.log("Verifying contract on Etherscan...");
       await hre.run("verify:verify", {
-        address: confidentialAuction.address,
+        address: confidentialAuction.implementation,
         constructorArguments: [],
       });
       console.log("Contract verified successfully!");
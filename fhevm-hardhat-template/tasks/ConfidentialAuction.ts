@@ -1,5 +1,129 @@
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  AbiCoder,
+  ZeroHash,
+  concat,
+  dataSlice,
+  decodeBytes32String,
+  encodeBytes32String,
+  formatEther,
+  getAddress,
+  hexlify,
+  id,
+  keccak256,
+  randomBytes,
+} from "ethers";
+import * as fs from "fs";
+
+const AUCTION_TYPES = ["ENGLISH", "DUTCH", "SEALED_BID", "RESERVE", "SEALED_BID_SECOND_PRICE", "MULTI_UNIT_UNIFORM"];
+const AUCTION_STATUSES = ["PENDING", "ACTIVE", "EXTENDED", "ENDED", "CANCELLED", "FAILED"];
+const ROLES = ["ADMIN", "AUCTIONEER", "FEE_MANAGER", "PAUSER"];
+// Bids are encrypted as 64-bit wei amounts, so the contract caps a bidder's total ETH deposit per auction here
+const MAX_DEPOSIT_WEI = 2n ** 64n - 1n;
+
+/**
+ * Approve an encrypted token allowance for token-paid auctions.
+ * Returns false when the auction is paid with ETH deposits instead.
+ */
+async function approvePaymentToken(
+  { ethers, fhevm }: HardhatRuntimeEnvironment,
+  auctionAddress: string,
+  auctionId: number,
+  amount: bigint
+) {
+  const signers = await ethers.getSigners();
+  const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionAddress);
+  const paymentToken = await auctionContract.getPaymentToken(auctionId);
+  if (paymentToken === ethers.ZeroAddress) {
+    return false;
+  }
+
+  console.log(`Approving ${amount} token units for auction ${auctionId}`);
+  const tokenContract = await ethers.getContractAt("ConfidentialTokenMock", paymentToken);
+  const encryptedAllowance = await fhevm
+    .createEncryptedInput(paymentToken, signers[0].address)
+    .add64(amount)
+    .encrypt();
+  const approveTx = await tokenContract
+    .connect(signers[0])
+    .approve(auctionAddress, encryptedAllowance.handles[0], encryptedAllowance.inputProof);
+  await approveTx.wait();
+  return true;
+}
+
+/**
+ * Fail before sending a deposit that would take the bidder's total in the auction past the contract's cap
+ */
+async function checkDepositCap(
+  auctionContract: { getDeposit(auctionId: number, bidder: string): Promise<bigint> },
+  auctionId: number,
+  bidder: string,
+  depositWei: bigint
+) {
+  const total = (await auctionContract.getDeposit(auctionId, bidder)) + depositWei;
+  if (total > MAX_DEPOSIT_WEI) {
+    throw new Error(
+      `A total deposit of ${formatEther(total)} ETH is above the cap of ${formatEther(MAX_DEPOSIT_WEI)} ETH per auction`
+    );
+  }
+}
+
+/**
+ * Read allowlisted addresses from a JSON file holding an array, or from a comma-separated list
+ */
+function readAddressList(list: string): string[] {
+  const addresses = fs.existsSync(list) ? JSON.parse(fs.readFileSync(list, "utf8")) : list.split(",");
+  return addresses.map((address: string) => getAddress(address.trim()));
+}
+
+/**
+ * Split comma-separated tags, lowercased and deduplicated like the frontend does, so they facet together
+ */
+function parseTags(list: string): string[] {
+  return [...new Set(list.split(",").map((tag) => tag.trim().toLowerCase()))].filter((tag) => tag.length > 0);
+}
+
+/**
+ * Sorted-pair Merkle tree over `keccak256(keccak256(abi.encode(address)))` leaves, matching the contract's
+ * `registerBidder`. Returns the root and the proof of `account`, if given.
+ */
+function buildAllowlistTree(addresses: string[], account?: string) {
+  const hashLeaf = (address: string) =>
+    keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [address])));
+  const hashPair = (a: string, b: string) => keccak256(concat(BigInt(a) < BigInt(b) ? [a, b] : [b, a]));
+
+  let layer = [...new Set(addresses.map(hashLeaf))].sort();
+  let node = account ? hashLeaf(getAddress(account)) : undefined;
+  if (node && !layer.includes(node)) {
+    throw new Error(`${account} is not on the allowlist`);
+  }
+
+  const proof: string[] = [];
+  while (layer.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      // An odd node out moves up unchanged
+      const parent = i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i];
+      if (node === layer[i] || node === layer[i + 1]) {
+        if (i + 1 < layer.length) proof.push(node === layer[i] ? layer[i + 1] : layer[i]);
+        node = parent;
+      }
+      next.push(parent);
+    }
+    layer = next;
+  }
+  return { root: layer[0] ?? ZeroHash, proof };
+}
+
+/**
+ * Commitment of an anonymous bid and the pseudonym the auction keys it by
+ */
+function anonymousCommitment(refundTo: string, salt: string) {
+  const commitment = keccak256(AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [refundTo, salt]));
+  return { commitment, pseudonym: getAddress(dataSlice(commitment, 12)) };
+}
 
 /**
  * Create a new auction
@@ -8,15 +132,47 @@ task("auction:create", "Create a new auction")
   .addParam("title", "Auction title")
   .addParam("description", "Item description")
   .addOptionalParam("imageurl", "Item image URL", "")
-  .addOptionalParam("type", "Auction type (0=ENGLISH, 1=DUTCH, 2=SEALED_BID, 3=RESERVE)", "0")
+  .addOptionalParam(
+    "type",
+    "Auction type (0=ENGLISH, 1=DUTCH, 2=SEALED_BID, 3=RESERVE, 4=SEALED_BID_SECOND_PRICE, 5=MULTI_UNIT_UNIFORM)",
+    "0"
+  )
   .addOptionalParam("start", "Start time (timestamp)", (Math.floor(Date.now() / 1000) + 300).toString())
   .addOptionalParam("end", "End time (timestamp)", (Math.floor(Date.now() / 1000) + 3600).toString())
   .addOptionalParam("increment", "Minimum bid increment in ETH", "0.01")
-  .addOptionalParam("extension", "Extension time in seconds", "300")
+  .addOptionalParam("extension", "Extension time in seconds (0 to never extend)", "300")
+  .addOptionalParam("threshold", "Seconds before the end within which a bid extends the auction", "300")
+  .addOptionalParam("maxextensions", "Maximum number of extensions", "3")
   .addOptionalParam("reserve", "Reserve price in ETH (0 for no reserve)", "0")
+  .addOptionalParam("token", "Confidential token to pay with instead of ETH deposits")
+  .addOptionalParam("startprice", "Dutch start price in ETH")
+  .addOptionalParam("floorprice", "Dutch floor price in ETH, above zero")
+  .addOptionalParam("decay", "Dutch price decay in ETH per second", "0")
+  .addOptionalParam("units", "Number of identical units sold by a multi-unit auction")
+  .addOptionalParam("candlewindow", "Ending window in seconds for a candle ending instead of extensions")
+  .addOptionalParam("candleperiods", "Number of periods the candle close is drawn from", "6")
+  .addOptionalParam("merkle", "Allowlist for a private auction: JSON file or comma-separated addresses")
+  .addFlag("anonymous", "Only take bids under commitments, keeping bidder addresses off-chain")
+  .addOptionalParam("nft", "ERC-721 or ERC-1155 contract of the item to escrow")
+  .addOptionalParam("tokenid", "Token ID of the escrowed item", "0")
+  .addOptionalParam("nftamount", "Amount to escrow; makes the item an ERC-1155 lot")
+  .addOptionalParam("metadatauri", "Content-addressed URI of a JSON listing, e.g. ipfs://...")
+  .addOptionalParam("metadatafile", "Local copy of the JSON listing, hashed so clients can verify what the URI serves")
+  .addOptionalParam("category", "Category ID from the registry (see auction:categories)")
+  .addOptionalParam("tags", "Comma-separated tags, at most 5 of up to 31 characters")
   .addOptionalParam("address", "ConfidentialAuction contract address")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
-    const { title, description, imageurl, type, start, end, increment, extension, reserve, address } = taskArguments;
+    const { title, description, imageurl, type, start, end, increment, extension, reserve, token, address } =
+      taskArguments;
+    const { startprice, floorprice, decay, units, nft, tokenid, nftamount } = taskArguments;
+    const { candlewindow, candleperiods, threshold, maxextensions, merkle, anonymous } = taskArguments;
+    const { metadatauri, metadatafile, category, tags } = taskArguments;
+    if (metadatauri && !metadatafile) {
+      throw new Error("--metadatauri needs --metadatafile, the document the URI serves");
+    }
+    if (startprice && !(Number(floorprice) > 0)) {
+      throw new Error("--startprice needs a --floorprice above zero");
+    }
     
     await fhevm.initializeCLIApi();
 
@@ -33,59 +189,120 @@ task("auction:create", "Create a new auction")
     const startTime = parseInt(start);
     const endTime = parseInt(end);
     const minimumBidIncrement = ethers.parseEther(increment);
-    const extensionTime = parseInt(extension);
+    const extensionPolicy = {
+      threshold: parseInt(threshold),
+      extensionTime: parseInt(extension),
+      maxExtensions: parseInt(maxextensions),
+    };
     const hasReservePrice = parseFloat(reserve) > 0;
 
     console.log(`Creating auction: ${title}`);
-    console.log(`Type: ${["ENGLISH", "DUTCH", "SEALED_BID", "RESERVE"][auctionType]}`);
+    console.log(`Type: ${AUCTION_TYPES[auctionType]}`);
     console.log(`Duration: ${new Date(startTime * 1000)} to ${new Date(endTime * 1000)}`);
 
+    // Encrypt reserve price, or pass a dummy encrypted value with an empty proof
+    const encryptedReserve = hasReservePrice
+      ? await fhevm
+          .createEncryptedInput(auctionDeployment.address, signers[0].address)
+          .add64(ethers.parseEther(reserve))
+          .encrypt()
+      : { handles: [ethers.ZeroHash], inputProof: "0x" };
+    const lotArgs = [
+      title,
+      description,
+      auctionType,
+      startTime,
+      endTime,
+      minimumBidIncrement,
+      extensionPolicy,
+      hasReservePrice,
+      encryptedReserve.handles[0],
+      encryptedReserve.inputProof,
+    ] as const;
+
     let tx;
-    if (hasReservePrice) {
-      // Encrypt reserve price
-      const reservePriceWei = ethers.parseEther(reserve);
-      const encryptedReserve = await fhevm
-        .createEncryptedInput(auctionDeployment.address, signers[0].address)
-        .add64(reservePriceWei)
-        .encrypt();
-
-      tx = await auctionContract
-        .connect(signers[0])
-        .createAuction(
-          title,
-          description,
-          imageurl,
-          auctionType,
-          startTime,
-          endTime,
-          minimumBidIncrement,
-          extensionTime,
-          hasReservePrice,
-          encryptedReserve.handles[0],
-          encryptedReserve.inputProof
-        );
+    if (nft && nftamount) {
+      const multiToken = await ethers.getContractAt("IERC1155", nft);
+      await (await multiToken.connect(signers[0]).setApprovalForAll(auctionDeployment.address, true)).wait();
+      console.log(`Escrowing ${nftamount} of ERC-1155 token ${nft} #${tokenid}`);
+      tx = await auctionContract.connect(signers[0]).createERC1155Auction(...lotArgs, nft, tokenid, nftamount);
+    } else if (nft) {
+      const collection = await ethers.getContractAt("IERC721", nft);
+      await (await collection.connect(signers[0]).setApprovalForAll(auctionDeployment.address, true)).wait();
+      console.log(`Escrowing ERC-721 token ${nft} #${tokenid}`);
+      tx = await auctionContract.connect(signers[0]).createERC721Auction(...lotArgs, nft, tokenid);
     } else {
-      // No reserve price
-      tx = await auctionContract
-        .connect(signers[0])
-        .createAuction(
-          title,
-          description,
-          imageurl,
-          auctionType,
-          startTime,
-          endTime,
-          minimumBidIncrement,
-          extensionTime,
-          false,
-          0, // dummy encrypted value
-          "0x" // empty proof
-        );
+      const [, , ...schedule] = lotArgs;
+      tx = await auctionContract.connect(signers[0]).createAuction(title, description, imageurl, ...schedule);
     }
 
     console.log(`Transaction hash: ${tx.hash}`);
     const receipt = await tx.wait();
     console.log(`Auction created successfully in block: ${receipt?.blockNumber}`);
+
+    const auctionId = (await auctionContract.getTotalAuctions()) - 1n;
+
+    if (startprice) {
+      const pricingTx = await auctionContract
+        .connect(signers[0])
+        .setDutchPricing(
+          auctionId,
+          ethers.parseEther(startprice),
+          ethers.parseEther(floorprice),
+          ethers.parseEther(decay)
+        );
+      await pricingTx.wait();
+      console.log(`Dutch price falls from ${startprice} ETH to ${floorprice} ETH by ${decay} ETH per second`);
+    }
+
+    if (units) {
+      const unitsTx = await auctionContract.connect(signers[0]).setUnitSupply(auctionId, parseInt(units));
+      await unitsTx.wait();
+      console.log(`Auction ${auctionId} sells ${units} units at one clearing price`);
+    }
+
+    if (candlewindow) {
+      const candleTx = await auctionContract
+        .connect(signers[0])
+        .setCandleEnding(auctionId, parseInt(candlewindow), parseInt(candleperiods));
+      await candleTx.wait();
+      console.log(`Auction ${auctionId} closes at random within its last ${candlewindow}s (${candleperiods} periods)`);
+    }
+
+    if (merkle) {
+      const { root } = buildAllowlistTree(readAddressList(merkle));
+      const allowlistTx = await auctionContract.connect(signers[0]).setAllowlist(auctionId, root);
+      await allowlistTx.wait();
+      console.log(`Auction ${auctionId} is private; bidders register against Merkle root ${root}`);
+    }
+
+    if (anonymous) {
+      const anonymousTx = await auctionContract.connect(signers[0]).setAnonymousBidding(auctionId);
+      await anonymousTx.wait();
+      console.log(`Auction ${auctionId} only takes anonymous bids (see auction:anonymous-bid)`);
+    }
+
+    if (token) {
+      const tokenTx = await auctionContract.connect(signers[0]).setPaymentToken(auctionId, token);
+      await tokenTx.wait();
+      console.log(`Auction ${auctionId} is paid in token ${token}`);
+    }
+
+    if (metadatauri) {
+      const metadataHash = keccak256(fs.readFileSync(metadatafile));
+      const metadataTx = await auctionContract.connect(signers[0]).setMetadataURI(auctionId, metadatauri, metadataHash);
+      await metadataTx.wait();
+      console.log(`Auction ${auctionId} is listed at ${metadatauri} (keccak256 ${metadataHash})`);
+    }
+
+    if (category || tags) {
+      const tagList: string[] = tags ? parseTags(tags) : [];
+      const categoryTx = await auctionContract
+        .connect(signers[0])
+        .setAuctionCategory(auctionId, parseInt(category ?? "0"), tagList.map((tag) => encodeBytes32String(tag)));
+      await categoryTx.wait();
+      console.log(`Auction ${auctionId} is filed under category ${category ?? "none"} with tags [${tagList.join(", ")}]`);
+    }
   });
 
 /**
@@ -94,9 +311,11 @@ task("auction:create", "Create a new auction")
 task("auction:bid", "Place a bid in an auction")
   .addParam("auctionid", "Auction ID")
   .addParam("amount", "Bid amount in ETH")
+  .addOptionalParam("deposit", "Collateral to lock in ETH (defaults to the bid amount)")
   .addOptionalParam("address", "ConfidentialAuction contract address")
-  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
-    const { auctionid, amount, address } = taskArguments;
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const { auctionid, amount, deposit, address } = taskArguments;
     
     await fhevm.initializeCLIApi();
 
@@ -111,8 +330,18 @@ task("auction:bid", "Place a bid in an auction")
 
     const auctionId = parseInt(auctionid);
     const bidAmountWei = ethers.parseEther(amount);
+    let depositWei = 0n;
 
-    console.log(`Placing bid for auction ${auctionId}: ${amount} ETH`);
+    // Token auctions pull the bid from an encrypted allowance instead of an ETH deposit
+    if (await approvePaymentToken(hre, auctionDeployment.address, auctionId, bidAmountWei)) {
+      console.log(`Placing bid for auction ${auctionId}: ${bidAmountWei} token units`);
+    } else {
+      depositWei = ethers.parseEther(deposit ?? amount);
+      await checkDepositCap(auctionContract, auctionId, signers[0].address, depositWei);
+      console.log(
+        `Placing bid for auction ${auctionId}: ${amount} ETH (deposit ${ethers.formatEther(depositWei)} ETH)`
+      );
+    }
 
     // Encrypt the bid amount
     const encryptedBid = await fhevm
@@ -122,7 +351,7 @@ task("auction:bid", "Place a bid in an auction")
 
     const tx = await auctionContract
       .connect(signers[0])
-      .placeBid(auctionId, encryptedBid.handles[0], encryptedBid.inputProof);
+      .placeBid(auctionId, encryptedBid.handles[0], encryptedBid.inputProof, { value: depositWei });
 
     console.log(`Transaction hash: ${tx.hash}`);
     const receipt = await tx.wait();
@@ -130,15 +359,18 @@ task("auction:bid", "Place a bid in an auction")
   });
 
 /**
- * Set auto-bid
+ * Place an anonymous bid
  */
-task("auction:auto-bid", "Set up auto-bidding")
+task("auction:anonymous-bid", "Bid in an anonymous auction under a commitment to a refund address and a salt")
   .addParam("auctionid", "Auction ID")
-  .addParam("maxamount", "Maximum bid amount in ETH")
+  .addParam("amount", "Bid amount in ETH")
+  .addOptionalParam("deposit", "Collateral to lock in ETH (defaults to the bid amount)")
+  .addOptionalParam("refundto", "Address the deposit is returned to (defaults to the first signer)")
+  .addOptionalParam("salt", "32-byte secret salt (a random one is generated and printed when omitted)")
   .addOptionalParam("address", "ConfidentialAuction contract address")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
-    const { auctionid, maxamount, address } = taskArguments;
-    
+    const { auctionid, amount, deposit, refundto, salt, address } = taskArguments;
+
     await fhevm.initializeCLIApi();
 
     const auctionDeployment = address
@@ -147,36 +379,47 @@ task("auction:auto-bid", "Set up auto-bidding")
 
     console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
 
+    // The signer submits the bid and pays the deposit; use a relayer or a fresh account to stay anonymous
     const signers = await ethers.getSigners();
     const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
 
     const auctionId = parseInt(auctionid);
-    const maxBidAmountWei = ethers.parseEther(maxamount);
+    const refundTo = getAddress(refundto ?? signers[0].address);
+    const bidSalt = salt ?? hexlify(randomBytes(32));
+    const { commitment, pseudonym } = anonymousCommitment(refundTo, bidSalt);
 
-    console.log(`Setting auto-bid for auction ${auctionId}: max ${maxamount} ETH`);
+    const depositWei = ethers.parseEther(deposit ?? amount);
+    await checkDepositCap(auctionContract, auctionId, pseudonym, depositWei);
 
-    // Encrypt the maximum bid amount
-    const encryptedMaxBid = await fhevm
+    console.log(`Placing anonymous bid for auction ${auctionId} as ${pseudonym}`);
+    console.log(`Keep the salt to withdraw the deposit later: ${bidSalt}`);
+
+    const encryptedBid = await fhevm
       .createEncryptedInput(auctionDeployment.address, signers[0].address)
-      .add64(maxBidAmountWei)
+      .add64(ethers.parseEther(amount))
       .encrypt();
 
     const tx = await auctionContract
       .connect(signers[0])
-      .setAutoBid(auctionId, encryptedMaxBid.handles[0], encryptedMaxBid.inputProof);
+      .placeAnonymousBid(auctionId, commitment, encryptedBid.handles[0], encryptedBid.inputProof, {
+        value: depositWei,
+      });
 
     console.log(`Transaction hash: ${tx.hash}`);
     const receipt = await tx.wait();
-    console.log(`Auto-bid set successfully in block: ${receipt?.blockNumber}`);
+    console.log(`Anonymous bid placed successfully in block: ${receipt?.blockNumber}`);
   });
 
 /**
- * List all auctions
+ * Add or remove bidders on the allowlist of a private auction
  */
-task("auction:list", "List all auctions")
+task("auction:add-bidders", "Allow addresses to bid in a private auction, or remove them with --remove")
+  .addParam("auctionid", "Auction ID")
+  .addParam("bidders", "JSON file or comma-separated addresses")
+  .addFlag("remove", "Remove the bidders instead of adding them")
   .addOptionalParam("address", "ConfidentialAuction contract address")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
-    const { address } = taskArguments;
+    const { auctionid, bidders, remove, address } = taskArguments;
 
     const auctionDeployment = address
       ? { address: address }
@@ -184,33 +427,203 @@ task("auction:list", "List all auctions")
 
     console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
 
+    const signers = await ethers.getSigners();
     const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
 
-    const totalAuctions = await auctionContract.getTotalAuctions();
-    console.log(`Total auctions: ${totalAuctions}`);
+    const auctionId = parseInt(auctionid);
+    const addresses = readAddressList(bidders);
+
+    console.log(`${remove ? "Removing" : "Adding"} ${addresses.length} bidder(s) for auction ${auctionId}`);
+
+    const tx = remove
+      ? await auctionContract.connect(signers[0]).removeBidders(auctionId, addresses)
+      : await auctionContract.connect(signers[0]).addBidders(auctionId, addresses);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Allowlist updated in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * Register on the Merkle allowlist of a private auction
+ */
+task("auction:register-bidder", "Prove you are on the Merkle allowlist of a private auction")
+  .addParam("auctionid", "Auction ID")
+  .addParam("merkle", "The allowlist the root was built from: JSON file or comma-separated addresses")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, merkle, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
 
-    for (let i = 0; i < totalAuctions; i++) {
-      const auction = await auctionContract.getAuctionInfo(i);
-      const isEnded = await auctionContract.isAuctionEnded(i);
-      
-      console.log(`\nAuction ${i}:`);
-      console.log(`  Title: ${auction.title}`);
-      console.log(`  Description: ${auction.description}`);
-      console.log(`  Creator: ${auction.creator}`);
-      console.log(`  Type: ${["ENGLISH", "DUTCH", "SEALED_BID", "RESERVE"][auction.auctionType]}`);
-      console.log(`  Status: ${["PENDING", "ACTIVE", "EXTENDED", "ENDED", "CANCELLED"][auction.status]}`);
-      console.log(`  Start: ${new Date(Number(auction.startTime) * 1000)}`);
-      console.log(`  End: ${new Date(Number(auction.endTime) * 1000)}`);
-      console.log(`  Total Bids: ${auction.totalBids}`);
-      console.log(`  Has Reserve: ${auction.hasReservePrice}`);
-      console.log(`  Is Ended: ${isEnded}`);
+    const auctionId = parseInt(auctionid);
+    const { root, proof } = buildAllowlistTree(readAddressList(merkle), signers[0].address);
+    const allowlist = await auctionContract.getAllowlist(auctionId);
+    if (root !== allowlist.merkleRoot) {
+      throw new Error(`The allowlist has root ${root}, but auction ${auctionId} uses ${allowlist.merkleRoot}`);
     }
+
+    console.log(`Registering ${signers[0].address} for auction ${auctionId}`);
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .registerBidder(auctionId, proof);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Bidder registered in block: ${receipt?.blockNumber}`);
   });
 
 /**
- * End an auction
+ * Place a multi-unit bid
  */
-task("auction:end", "End an auction")
+task("auction:unit-bid", "Bid for a number of units of a multi-unit auction")
+  .addParam("auctionid", "Auction ID")
+  .addParam("unitprice", "Price per unit in ETH")
+  .addParam("quantity", "Number of units")
+  .addOptionalParam("deposit", "Collateral to lock in ETH (defaults to unit price times quantity)")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
+    const { auctionid, unitprice, quantity, deposit, address } = taskArguments;
+
+    await fhevm.initializeCLIApi();
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+    const unitPriceWei = ethers.parseEther(unitprice);
+    const depositWei = deposit ? ethers.parseEther(deposit) : unitPriceWei * BigInt(quantity);
+    await checkDepositCap(auctionContract, auctionId, signers[0].address, depositWei);
+    console.log(
+      `Bidding for ${quantity} units at ${unitprice} ETH each (deposit ${ethers.formatEther(depositWei)} ETH)`
+    );
+
+    // Price and quantity share one input proof
+    const encryptedBid = await fhevm
+      .createEncryptedInput(auctionDeployment.address, signers[0].address)
+      .add64(unitPriceWei)
+      .add64(BigInt(quantity))
+      .encrypt();
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .placeUnitBid(auctionId, encryptedBid.handles[0], encryptedBid.handles[1], encryptedBid.inputProof, {
+        value: depositWei,
+      });
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Bid placed successfully in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * Decrypt your multi-unit allocation
+ */
+task("auction:allocation", "Compute and decrypt the units you won in a multi-unit auction")
+  .addParam("auctionid", "Auction ID")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
+    const { auctionid, address } = taskArguments;
+
+    await fhevm.initializeCLIApi();
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+    const tx = await auctionContract.connect(signers[0]).computeAllocation(auctionId);
+    await tx.wait();
+
+    const unitBid = await auctionContract.getUnitBid(auctionId, signers[0].address);
+    const allocation = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      unitBid.allocation,
+      auctionDeployment.address,
+      signers[0]
+    );
+    console.log(`You won ${allocation} units in auction ${auctionId}`);
+  });
+
+/**
+ * Revise a bid
+ */
+task("auction:revise", "Revise your bid (raises only in open auctions, any amount in sealed-bid auctions)")
+  .addParam("auctionid", "Auction ID")
+  .addParam("amount", "New bid amount in ETH")
+  .addOptionalParam("deposit", "Additional collateral to lock in ETH", "0")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const { auctionid, amount, deposit, address } = taskArguments;
+
+    await fhevm.initializeCLIApi();
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+    const bidAmountWei = ethers.parseEther(amount);
+    let depositWei = 0n;
+
+    if (await approvePaymentToken(hre, auctionDeployment.address, auctionId, bidAmountWei)) {
+      console.log(`Revising bid for auction ${auctionId}: ${bidAmountWei} token units`);
+    } else {
+      depositWei = ethers.parseEther(deposit);
+      await checkDepositCap(auctionContract, auctionId, signers[0].address, depositWei);
+      console.log(
+        `Revising bid for auction ${auctionId}: ${amount} ETH (extra deposit ${ethers.formatEther(depositWei)} ETH)`
+      );
+    }
+
+    const encryptedBid = await fhevm
+      .createEncryptedInput(auctionDeployment.address, signers[0].address)
+      .add64(bidAmountWei)
+      .encrypt();
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .reviseBid(auctionId, encryptedBid.handles[0], encryptedBid.inputProof, { value: depositWei });
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Bid revised successfully in block: ${receipt?.blockNumber}`);
+
+    const progress = await auctionContract.getRecomputeProgress(auctionId);
+    if (progress.pending) {
+      console.log(`Highest bid recompute at ${progress.processed}/${progress.total} bidders, run auction:recompute`);
+    }
+  });
+
+/**
+ * Withdraw a sealed bid
+ */
+task("auction:withdraw-bid", "Withdraw your sealed bid (the deposit stays locked until settlement)")
   .addParam("auctionid", "Auction ID")
   .addOptionalParam("address", "ConfidentialAuction contract address")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
@@ -227,21 +640,21 @@ task("auction:end", "End an auction")
 
     const auctionId = parseInt(auctionid);
 
-    console.log(`Ending auction ${auctionId}`);
+    console.log(`Withdrawing bid from auction ${auctionId}`);
 
     const tx = await auctionContract
       .connect(signers[0])
-      .endAuction(auctionId);
+      .withdrawBid(auctionId);
 
     console.log(`Transaction hash: ${tx.hash}`);
     const receipt = await tx.wait();
-    console.log(`Auction ended successfully in block: ${receipt?.blockNumber}`);
+    console.log(`Bid withdrawn successfully in block: ${receipt?.blockNumber}`);
   });
 
 /**
- * Reveal auction results
+ * Continue a highest bid recompute
  */
-task("auction:reveal", "Reveal auction results")
+task("auction:recompute", "Continue recomputing the highest bid after a sealed-bid revision")
   .addParam("auctionid", "Auction ID")
   .addOptionalParam("address", "ConfidentialAuction contract address")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
@@ -258,13 +671,696 @@ task("auction:reveal", "Reveal auction results")
 
     const auctionId = parseInt(auctionid);
 
-    console.log(`Revealing results for auction ${auctionId}`);
+    while ((await auctionContract.getRecomputeProgress(auctionId)).pending) {
+      const tx = await auctionContract.connect(signers[0]).recomputeHighestBid(auctionId);
+      await tx.wait();
+      const progress = await auctionContract.getRecomputeProgress(auctionId);
+      console.log(`Recomputed ${progress.processed}/${progress.total} bidders`);
+    }
+    console.log(`Highest bid is up to date`);
+  });
+
+/**
+ * Accept the current Dutch price
+ */
+task("auction:accept", "Accept the current price of a Dutch auction")
+  .addParam("auctionid", "Auction ID")
+  .addParam("maxprice", "Highest price you are willing to pay in ETH")
+  .addOptionalParam("deposit", "Collateral to lock in ETH (defaults to the current price)")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
+    const { auctionid, maxprice, deposit, address } = taskArguments;
+
+    await fhevm.initializeCLIApi();
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+    const currentPrice = await auctionContract.getCurrentPrice(auctionId);
+    const depositWei = deposit ? ethers.parseEther(deposit) : currentPrice;
+    await checkDepositCap(auctionContract, auctionId, signers[0].address, depositWei);
+
+    console.log(`Current price of auction ${auctionId}: ${ethers.formatEther(currentPrice)} ETH`);
+    console.log(`Accepting up to ${maxprice} ETH (deposit ${ethers.formatEther(depositWei)} ETH)`);
+
+    const encryptedMaxPrice = await fhevm
+      .createEncryptedInput(auctionDeployment.address, signers[0].address)
+      .add64(ethers.parseEther(maxprice))
+      .encrypt();
 
     const tx = await auctionContract
       .connect(signers[0])
-      .revealResults(auctionId);
+      .acceptPrice(auctionId, encryptedMaxPrice.handles[0], encryptedMaxPrice.inputProof, { value: depositWei });
 
     console.log(`Transaction hash: ${tx.hash}`);
     const receipt = await tx.wait();
-    console.log(`Results revealed successfully in block: ${receipt?.blockNumber}`);
+    console.log(`Acceptance submitted in block: ${receipt?.blockNumber}; the auction ends once it is decrypted`);
+  });
+
+/**
+ * Set auto-bid
+ */
+task("auction:auto-bid", "Set up auto-bidding")
+  .addParam("auctionid", "Auction ID")
+  .addParam("maxamount", "Maximum bid amount in ETH")
+  .addOptionalParam("deposit", "Collateral to lock in ETH (defaults to the maximum)")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const { auctionid, maxamount, deposit, address } = taskArguments;
+    
+    await fhevm.initializeCLIApi();
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+    const maxBidAmountWei = ethers.parseEther(maxamount);
+
+    // Token auctions escrow the maximum up front; ETH auctions lock a deposit
+    const paysInToken = await approvePaymentToken(hre, auctionDeployment.address, auctionId, maxBidAmountWei);
+    const depositWei = paysInToken ? 0n : ethers.parseEther(deposit ?? maxamount);
+    await checkDepositCap(auctionContract, auctionId, signers[0].address, depositWei);
+
+    console.log(`Setting auto-bid for auction ${auctionId}: max ${maxamount} ETH`);
+
+    // Encrypt the maximum bid amount
+    const encryptedMaxBid = await fhevm
+      .createEncryptedInput(auctionDeployment.address, signers[0].address)
+      .add64(maxBidAmountWei)
+      .encrypt();
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .setAutoBid(auctionId, encryptedMaxBid.handles[0], encryptedMaxBid.inputProof, { value: depositWei });
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Auto-bid set successfully in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * List auctions, a page at a time through AuctionQuery
+ */
+task("auction:list", "List auctions, optionally filtered by creator, status, bidder or category")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .addOptionalParam("query", "AuctionQuery contract address")
+  .addOptionalParam("creator", "Only list auctions created by this address")
+  .addOptionalParam("status", `Only list auctions in this effective status (${AUCTION_STATUSES.join(", ")})`)
+  .addOptionalParam("bidder", "Only list auctions this address bid in")
+  .addOptionalParam("category", "Only list auctions filed under this category ID (0 for uncategorized)")
+  .addOptionalParam("pagesize", "Auctions fetched per call", "50")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { address, query, creator, status, bidder, category, pagesize } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+    const queryDeployment = query
+      ? { address: query }
+      : await deployments.get("AuctionQuery");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+    const queryContract = await ethers.getContractAt("AuctionQuery", queryDeployment.address);
+
+    const totalAuctions = await auctionContract.getTotalAuctions();
+    console.log(`Total auctions: ${totalAuctions}`);
+    if (await auctionContract.paused()) {
+      console.log("The contract is paused");
+    }
+
+    const statusFilter = status === undefined ? -1 : AUCTION_STATUSES.indexOf(status.toUpperCase());
+    if (status !== undefined && statusFilter < 0) {
+      throw new Error(`Unknown status ${status}, expected one of ${AUCTION_STATUSES.join(", ")}`);
+    }
+    const pageSize = parseInt(pagesize);
+    const fetchPage = (offset: number) => {
+      if (creator) return queryContract.getAuctionsByCreator(creator, offset, pageSize);
+      if (statusFilter >= 0) return queryContract.getAuctionsByStatus(statusFilter, offset, pageSize);
+      if (bidder) return queryContract.getAuctionsBidOnBy(bidder, offset, pageSize);
+      if (category !== undefined) return queryContract.getAuctionsByCategory(parseInt(category), offset, pageSize);
+      return queryContract.getAuctionsPage(offset, pageSize);
+    };
+    const categoryNames = (await queryContract.getCategories()).map(({ name }) => name);
+
+    // Offsets count matching auctions, so stepping by the page size walks through every match
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await fetchPage(offset);
+
+      for (const auction of page) {
+        console.log(`\nAuction ${auction.id}:`);
+        console.log(`  Title: ${auction.title}`);
+        console.log(`  Description: ${auction.description}`);
+        console.log(`  Creator: ${auction.creator}`);
+        console.log(`  Type: ${AUCTION_TYPES[Number(auction.auctionType)]}`);
+        if (auction.categoryId > 0n) {
+          console.log(`  Category: ${categoryNames[Number(auction.categoryId) - 1]} (${auction.categoryId})`);
+        }
+        if (auction.tags.length > 0) {
+          console.log(`  Tags: ${auction.tags.map((tag) => decodeBytes32String(tag)).join(", ")}`);
+        }
+        const storedStatus = AUCTION_STATUSES[Number(auction.status)];
+        console.log(`  Status: ${storedStatus} (effective: ${AUCTION_STATUSES[Number(auction.effectiveStatus)]})`);
+        if (auction.isPaused) {
+          console.log(`  Paused: end time frozen until unpaused`);
+        }
+        console.log(`  Start: ${new Date(Number(auction.startTime) * 1000)}`);
+        console.log(`  End: ${new Date(Number(auction.endTime) * 1000)}`);
+        console.log(`  Total Bids: ${auction.totalBids}`);
+        console.log(`  Has Reserve: ${auction.hasReservePrice}`);
+        if (auction.totalUnits > 0n) {
+          console.log(`  Units: ${auction.totalUnits}`);
+        }
+        if (auction.candlePeriods > 0n) {
+          console.log(`  Candle Ending: ${auction.candlePeriods} periods over the last ${auction.candleWindow}s`);
+        }
+        const { extensionTime, maxExtensions } = auction.extensionPolicy;
+        if (extensionTime > 0n) {
+          const capReached = auction.extensionCount === maxExtensions ? " (cap reached)" : "";
+          console.log(`  Extensions: ${auction.extensionCount}/${maxExtensions}${capReached}`);
+        }
+        if (auction.isPrivate) {
+          console.log(`  Private: ${auction.bidderRoot === ZeroHash ? "explicit allowlist" : auction.bidderRoot}`);
+        }
+        if (auction.isAnonymous) {
+          console.log(`  Anonymous: bidders are listed by commitment pseudonym`);
+        }
+        const isEnded = Number(auction.effectiveStatus) >= AUCTION_STATUSES.indexOf("ENDED"); // or cancelled, failed
+        console.log(`  Is Ended: ${isEnded}`);
+        if (!isEnded) continue;
+
+        const results = await auctionContract.getRevealedResults(auction.id);
+        if (results.revealed) {
+          console.log(`  Winner: ${results.winner}`);
+          console.log(`  Winning Bid: ${ethers.formatEther(results.winningBid)} ETH`);
+          if (auction.hasReservePrice) {
+            console.log(`  Reserve Met: ${results.reserveMet}`);
+          }
+          if (auction.candlePeriods > 0n) {
+            console.log(`  Candle Went Out: ${new Date(Number(auction.candleEndTime) * 1000)}`);
+          }
+          if (auction.totalUnits > 0n) {
+            console.log(`  Units Sold: ${results.unitsSold} at ${ethers.formatEther(results.winningBid)} ETH each`);
+          }
+        }
+      }
+
+      if (page.length < pageSize) break;
+    }
+  });
+
+/**
+ * End an auction
+ */
+task("auction:end", "End an auction")
+  .addParam("auctionid", "Auction ID")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+
+    console.log(`Ending auction ${auctionId}`);
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .endAuction(auctionId);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Auction ended successfully in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * Finalize an auction past its end time
+ */
+task("auction:finalize", "Move an auction past its end time to ENDED (callable by anyone)")
+  .addParam("auctionid", "Auction ID")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+
+    console.log(`Finalizing auction ${auctionId}`);
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .finalize(auctionId);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Auction finalized successfully in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * Draw the close of a candle auction
+ */
+task("auction:draw-candle", "Draw the random close of a candle auction past its end time (callable by anyone)")
+  .addParam("auctionid", "Auction ID")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+
+    console.log(`Drawing the candle end of auction ${auctionId}`);
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .drawCandleEnd(auctionId);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Candle end drawn in block: ${receipt?.blockNumber}; it is published by auction:reveal`);
+  });
+
+/**
+ * Reveal auction results
+ */
+task("auction:reveal", "Reveal auction results")
+  .addParam("auctionid", "Auction ID")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+
+    console.log(`Revealing results for auction ${auctionId}`);
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .revealResults(auctionId);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Reveal requested in block: ${receipt?.blockNumber}`);
+    console.log(`The decryption oracle will publish the winner and winning bid`);
+  });
+
+/**
+ * Settle an auction
+ */
+task("auction:settle", "Request settlement of an ended auction")
+  .addParam("auctionid", "Auction ID")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+
+    console.log(`Requesting settlement for auction ${auctionId}`);
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .settle(auctionId);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Settlement requested in block: ${receipt?.blockNumber}`);
+    console.log(`The decryption oracle will complete the settlement`);
+  });
+
+/**
+ * Claim an escrowed lot
+ */
+task("auction:claim-lot", "Deliver an escrowed NFT to the winner, or back to the creator")
+  .addParam("auctionid", "Auction ID")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+    const lot = await auctionContract.getLot(auctionId);
+    console.log(`Claiming ${lot.amount} of token ${lot.token} #${lot.tokenId} from auction ${auctionId}`);
+
+    const tx = await auctionContract.connect(signers[0]).claimLot(auctionId);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Lot delivered in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * Withdraw deposit or proceeds
+ */
+task("auction:withdraw", "Withdraw a settled deposit, or sale proceeds")
+  .addOptionalParam("auctionid", "Auction ID to withdraw the deposit from (omit to withdraw proceeds)")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    let tx;
+    if (auctionid !== undefined) {
+      const auctionId = parseInt(auctionid);
+      const deposit = await auctionContract.getDeposit(auctionId, signers[0].address);
+      console.log(`Withdrawing deposit of ${ethers.formatEther(deposit)} ETH from auction ${auctionId}`);
+      if ((await auctionContract.getAuctionInfo(auctionId)).totalUnits > 0n) {
+        console.log(`The decryption oracle refunds it minus the cost of the units you won`);
+      }
+      tx = await auctionContract.connect(signers[0]).withdraw(auctionId);
+    } else {
+      const proceeds = await auctionContract.pendingWithdrawals(signers[0].address);
+      console.log(`Withdrawing proceeds of ${ethers.formatEther(proceeds)} ETH`);
+      tx = await auctionContract.connect(signers[0]).withdrawProceeds();
+    }
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Withdrawal completed in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * Report the platform fees awaiting withdrawal to the treasury
+ */
+task("auction:fees", "Show the accrued platform fees, and send them to the treasury with --withdraw")
+  .addOptionalParam("token", "Confidential token to report, decrypting its fees as the treasury")
+  .addFlag("withdraw", "Send the accrued fees to the treasury (fee managers only)")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
+    const { token, withdraw, address } = taskArguments;
+
+    await fhevm.initializeCLIApi();
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const treasury = await auctionContract.treasury();
+    console.log(`Treasury: ${treasury}`);
+    console.log(`Platform fee for new auctions: ${Number(await auctionContract.platformFeePercent()) / 100}%`);
+
+    if (token === undefined) {
+      console.log(`Accrued: ${ethers.formatEther(await auctionContract.getAccruedFees())} ETH`);
+    } else {
+      const accrued = await auctionContract.getEncryptedAccruedFees(token);
+      if (accrued === ZeroHash) {
+        console.log(`Accrued: 0 token units`);
+      } else if (signers[0].address !== treasury) {
+        console.log(`Accrued: encrypted, only the treasury can decrypt it`);
+      } else {
+        const amount = await fhevm.userDecryptEuint(FhevmType.euint64, accrued, auctionDeployment.address, signers[0]);
+        console.log(`Accrued: ${amount} token units`);
+      }
+    }
+
+    if (withdraw) {
+      const tx = await auctionContract.connect(signers[0]).withdrawFees(token ?? ethers.ZeroAddress);
+      console.log(`Transaction hash: ${tx.hash}`);
+      const receipt = await tx.wait();
+      console.log(`Fees sent to the treasury in block: ${receipt?.blockNumber}`);
+    }
+  });
+
+/**
+ * Withdraw the deposit of an anonymous bid
+ */
+task("auction:withdraw-anonymous", "Open an anonymous bid's commitment and refund its deposit to the refund address")
+  .addParam("auctionid", "Auction ID")
+  .addParam("salt", "Salt the bid was committed with")
+  .addOptionalParam("refundto", "Refund address the bid was committed to (defaults to the first signer)")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, salt, refundto, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+
+    const auctionId = parseInt(auctionid);
+    const refundTo = getAddress(refundto ?? signers[0].address);
+    const { pseudonym } = anonymousCommitment(refundTo, salt);
+    const deposit = await auctionContract.getDeposit(auctionId, pseudonym);
+
+    console.log(`Withdrawing deposit of ${ethers.formatEther(deposit)} ETH of ${pseudonym} to ${refundTo}`);
+
+    const tx = await auctionContract
+      .connect(signers[0])
+      .withdrawAnonymousDeposit(auctionId, refundTo, salt);
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Withdrawal completed in block: ${receipt?.blockNumber}`);
+  });
+
+/**
+ * Pause or unpause the whole contract, or a single auction
+ */
+/**
+ * Manage the category registry
+ */
+task("auction:categories", "List the category registry; the owner adds one with --add or retires one with --retire")
+  .addOptionalParam("add", "Name of a category to add")
+  .addOptionalParam("retire", "ID of a category to retire")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .addOptionalParam("query", "AuctionQuery contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { add, retire, address, query } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+    const queryDeployment = query
+      ? { address: query }
+      : await deployments.get("AuctionQuery");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+    const queryContract = await ethers.getContractAt("AuctionQuery", queryDeployment.address);
+
+    if (add) {
+      const tx = await auctionContract.connect(signers[0]).addCategory(add);
+      await tx.wait();
+      console.log(`Added category ${add} as ${await auctionContract.categoryCount()}`);
+    }
+    if (retire) {
+      const tx = await auctionContract.connect(signers[0]).retireCategory(parseInt(retire));
+      await tx.wait();
+      console.log(`Retired category ${retire}`);
+    }
+
+    const categories = await queryContract.getCategories();
+    console.log(`Categories: ${categories.length}`);
+    categories.forEach(({ name, retired }, index) => {
+      console.log(`  ${index + 1}: ${name}${retired ? " (retired)" : ""}`);
+    });
+  });
+
+task("auction:pause", "Pause the contract, or one auction with --auctionid; lift the pause with --unpause")
+  .addOptionalParam("auctionid", "Auction ID (defaults to the whole contract)")
+  .addFlag("unpause", "Lift the pause instead")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { auctionid, unpause, address } = taskArguments;
+
+    const auctionDeployment = address
+      ? { address: address }
+      : await deployments.get("ConfidentialAuction");
+
+    console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+    const pauser = auctionContract.connect(signers[0]);
+
+    let tx;
+    if (auctionid === undefined) {
+      console.log(`${unpause ? "Unpausing" : "Pausing"} the contract`);
+      tx = unpause ? await pauser.unpause() : await pauser.pause();
+    } else {
+      const auctionId = parseInt(auctionid);
+      console.log(`${unpause ? "Unpausing" : "Pausing"} auction ${auctionId}`);
+      tx = unpause ? await pauser.unpauseAuction(auctionId) : await pauser.pauseAuction(auctionId);
+    }
+
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Pause updated in block: ${receipt?.blockNumber}`);
+
+    if (unpause && auctionid !== undefined) {
+      const info = await auctionContract.getAuctionInfo(parseInt(auctionid));
+      console.log(`Auction now ends at ${new Date(Number(info.endTime) * 1000).toISOString()}`);
+    }
+  });
+
+/**
+ * Upgrade the proxy to the current code by rerunning the deployment
+ */
+task("auction:upgrade", "Deploy a new ConfidentialAuction implementation and point the proxy at it")
+  .setAction(async function (_taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const proxyDeployment = await deployments.getOrNull("ConfidentialAuction");
+    const previousImplementation = await deployments.getOrNull("ConfidentialAuction_Implementation");
+    if (!proxyDeployment || !previousImplementation) {
+      throw new Error("No proxied ConfidentialAuction deployment found, run `npx hardhat deploy` first");
+    }
+
+    console.log(`ConfidentialAuction: ${proxyDeployment.address}`);
+    console.log(`Current implementation: ${previousImplementation.address}`);
+
+    const auctionContract = await ethers.getContractAt("ConfidentialAuction", proxyDeployment.address);
+    const totalAuctions = await auctionContract.getTotalAuctions();
+    const owner = await auctionContract.owner();
+
+    // hardhat-deploy only redeploys, and upgrades through the proxy admin, when the code changed
+    await hre.run("deploy", { tags: "ConfidentialAuction" });
+
+    const implementation = await deployments.get("ConfidentialAuction_Implementation");
+    if (implementation.address === previousImplementation.address) {
+      console.log("The implementation is up to date, nothing to upgrade");
+      return;
+    }
+    console.log(`Upgraded to implementation: ${implementation.address}`);
+
+    // The proxy keeps its storage, so nothing visible should have moved
+    if ((await auctionContract.getTotalAuctions()) !== totalAuctions || (await auctionContract.owner()) !== owner) {
+      throw new Error("State changed across the upgrade, check the storage layout");
+    }
+    console.log(`State preserved: ${totalAuctions} auctions, owner ${owner}`);
+  });
+
+/**
+ * Grant or revoke a role by name, as the first signer
+ */
+async function updateRole(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment, grant: boolean) {
+  const { ethers, deployments } = hre;
+  const { role, account, address } = taskArguments;
+
+  const roleName = String(role).toUpperCase().replace(/_ROLE$/, "");
+  if (!ROLES.includes(roleName)) {
+    throw new Error(`Unknown role ${role}, expected one of ${ROLES.join(", ")}`);
+  }
+
+  const auctionDeployment = address
+    ? { address: address }
+    : await deployments.get("ConfidentialAuction");
+
+  console.log(`ConfidentialAuction: ${auctionDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const auctionContract = await ethers.getContractAt("ConfidentialAuction", auctionDeployment.address);
+  const roleId = id(`${roleName}_ROLE`);
+
+  console.log(`${grant ? "Granting" : "Revoking"} ${roleName} ${grant ? "to" : "from"} ${account}`);
+
+  const tx = grant
+    ? await auctionContract.connect(signers[0]).grantRole(roleId, account)
+    : await auctionContract.connect(signers[0]).revokeRole(roleId, account);
+
+  console.log(`Transaction hash: ${tx.hash}`);
+  const receipt = await tx.wait();
+  console.log(`Role updated in block: ${receipt?.blockNumber}`);
+}
+
+/**
+ * Grant a role (the owner grants ADMIN, admins grant the others)
+ */
+task("auction:grant-role", "Grant ADMIN, AUCTIONEER, FEE_MANAGER or PAUSER to an account")
+  .addParam("role", "Role name")
+  .addParam("account", "Account to grant the role to")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await updateRole(taskArguments, hre, true);
+  });
+
+/**
+ * Revoke a role (the owner revokes ADMIN, admins revoke the others)
+ */
+task("auction:revoke-role", "Revoke ADMIN, AUCTIONEER, FEE_MANAGER or PAUSER from an account")
+  .addParam("role", "Role name")
+  .addParam("account", "Account to revoke the role from")
+  .addOptionalParam("address", "ConfidentialAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await updateRole(taskArguments, hre, false);
   });
@@ -1,5 +1,6 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { VotingSystem, VotingSystem__factory } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
@@ -71,6 +72,26 @@ describe("VotingSystem", function () {
         votingSystem.connect(signers.alice).setAdmin(signers.bob.address, true)
       ).to.be.revertedWith("Only owner can call this function");
     });
+
+    it("should emit role events when admins change", async function () {
+      const adminRole = await votingSystem.ADMIN_ROLE();
+      await expect(votingSystem.connect(signers.deployer).setAdmin(signers.alice.address, true))
+        .to.emit(votingSystem, "RoleGranted")
+        .withArgs(adminRole, signers.alice.address, signers.deployer.address);
+      await expect(votingSystem.connect(signers.deployer).revokeRole(adminRole, signers.alice.address))
+        .to.emit(votingSystem, "RoleRevoked")
+        .withArgs(adminRole, signers.alice.address, signers.deployer.address);
+    });
+
+    it("should transfer ownership in two steps", async function () {
+      await votingSystem.connect(signers.deployer).transferOwnership(signers.alice.address);
+      await expect(votingSystem.connect(signers.bob).acceptOwnership()).to.be.revertedWith("Not the pending owner");
+
+      await votingSystem.connect(signers.alice).acceptOwnership();
+      expect(await votingSystem.owner()).to.equal(signers.alice.address);
+      expect(await votingSystem.admins(signers.alice.address)).to.be.true;
+      expect(await votingSystem.admins(signers.deployer.address)).to.be.false;
+    });
   });
 
   describe("Voting Creation", function () {
@@ -78,7 +99,7 @@ describe("VotingSystem", function () {
       const title = "Test Voting";
       const description = "A test voting for our system";
       const options = ["Option A", "Option B", "Option C"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600; // 1 hour later
 
       const tx = await votingSystem.connect(signers.deployer).createVoting(
@@ -108,7 +129,7 @@ describe("VotingSystem", function () {
       const title = "Private Voting";
       const description = "A private voting with whitelist";
       const options = ["Yes", "No"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await votingSystem.connect(signers.deployer).createVoting(
@@ -128,7 +149,7 @@ describe("VotingSystem", function () {
       const title = "Unauthorized Voting";
       const description = "This should fail";
       const options = ["Option A", "Option B"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await expect(
@@ -147,7 +168,7 @@ describe("VotingSystem", function () {
       const title = "Invalid Voting";
       const description = "Too few options";
       const options = ["Only One"]; // Only 1 option
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await expect(
@@ -166,7 +187,7 @@ describe("VotingSystem", function () {
       const title = "Invalid Time Voting";
       const description = "Invalid time range";
       const options = ["Option A", "Option B"];
-      const startTime = Math.floor(Date.now() / 1000) + 3600;
+      const startTime = (await time.latest()) + 3600;
       const endTime = startTime - 1800; // End before start
 
       await expect(
@@ -188,7 +209,7 @@ describe("VotingSystem", function () {
       const title = "Private Voting";
       const description = "A private voting with whitelist";
       const options = ["Yes", "No"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await votingSystem.connect(signers.deployer).createVoting(
@@ -229,7 +250,7 @@ describe("VotingSystem", function () {
       const title = "Public Voting";
       const description = "A public voting";
       const options = ["Yes", "No"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await votingSystem.connect(signers.deployer).createVoting(
@@ -253,7 +274,7 @@ describe("VotingSystem", function () {
       const title = "Test Voting";
       const description = "A test voting";
       const options = ["Option A", "Option B", "Option C"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await votingSystem.connect(signers.deployer).createVoting(
@@ -369,7 +390,7 @@ describe("VotingSystem", function () {
       const title = "Test Voting";
       const description = "A test voting";
       const options = ["Option A", "Option B"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await votingSystem.connect(signers.deployer).createVoting(
@@ -429,7 +450,7 @@ describe("VotingSystem", function () {
       const title = "Count Test";
       const description = "Testing vote counting";
       const options = ["Option A", "Option B"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await votingSystem.connect(signers.deployer).createVoting(
@@ -491,7 +512,7 @@ describe("VotingSystem", function () {
       const title = "Creator Access Test";
       const description = "Testing creator default access";
       const options = ["Yes", "No"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await time.latest();
       const endTime = startTime + 3600;
 
       await votingSystem.connect(signers.deployer).createVoting(